@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "../../../lib/supabase";
+import type { ClaimDailyRequest } from "../../../lib/types";
+import crypto from "crypto";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ClaimDailyRequest = await request.json();
+
+    if (!body.run_id || !body.token) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const tokenHash = crypto
+      .createHash("sha256")
+      .update(body.token)
+      .digest("hex");
+
+    const supabase = getSupabaseServerClient();
+
+    const { data: run, error: runError } = await supabase
+      .from("game_runs")
+      .select("id, player_name, daily_day, expires_at, used_at, claimed_at")
+      .eq("id", body.run_id)
+      .eq("token_hash", tokenHash)
+      .single();
+
+    if (runError || !run) {
+      return NextResponse.json(
+        { success: false, error: "Invalid or expired run session" },
+        { status: 400 }
+      );
+    }
+
+    if (!run.daily_day) {
+      return NextResponse.json(
+        { success: false, error: "Run is not a daily challenge run" },
+        { status: 400 }
+      );
+    }
+
+    // Claiming the same run twice is harmless
+    if (run.claimed_at) {
+      return NextResponse.json({ success: true });
+    }
+
+    if (run.used_at || new Date(run.expires_at) < new Date()) {
+      return NextResponse.json(
+        { success: false, error: "Run session expired" },
+        { status: 400 }
+      );
+    }
+
+    const { data: played, error: playedError } = await supabase
+      .from("daily_results")
+      .select("id")
+      .eq("player_name", run.player_name)
+      .eq("day", run.daily_day)
+      .maybeSingle();
+
+    if (playedError) {
+      console.error("Error checking daily attempt:", playedError);
+      return NextResponse.json(
+        { success: false, error: playedError.message },
+        { status: 500 }
+      );
+    }
+
+    if (played) {
+      return NextResponse.json(
+        { success: false, error: "You already played today's challenge" },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("game_runs")
+      .update({ claimed_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    if (error) {
+      // Unique (player_name, daily_day) index over claimed runs: another run already claimed the day
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { success: false, error: "You already played today's challenge" },
+          { status: 409 }
+        );
+      }
+      console.error("Error claiming daily attempt:", error);
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Unexpected error claiming daily attempt:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServerClient } from "../../../lib/supabase";
 import type { GameResultSubmission } from "../../../lib/types";
-import { calculateScore, calculateRank } from "../../../lib/server-scoring";
+import {
+  SCORE_VERSION,
+  calculateRank,
+  calculateScore,
+  getScoreVersionFilter,
+} from "../../../lib/scoring";
 import crypto from "crypto";
 import { isNameValid } from "../../../lib/name-validation";
+import { replayKeystrokes } from "../../../lib/keystroke-replay";
+import { recordFinish } from "../../../lib/race-rooms";
+import { DEFAULT_PACER_CHAIN } from "../../../lib/chains";
+import {
+  DEFAULT_DEVICE,
+  DEFAULT_LANGUAGE,
+  DEFAULT_WORD_LIST,
+  MAX_LPS,
+  NO_MODIFIERS,
+  forbidsCorrections,
+  getBucketFilter,
+  getGameModeLabel,
+  getGameModeValue,
+  getModifiersKey,
+  isSameGameMode,
+  isValidDevice,
+  isValidGameMode,
+  isValidLanguage,
+  isValidModifiers,
+  isValidWordList,
+  toGameMode,
+} from "../../../lib/constants";
 
 export async function POST(request: NextRequest) {
   try {
@@ -29,13 +56,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (![15, 30].includes(body.game_mode)) {
+    if (!isValidGameMode(body.game_mode)) {
       return NextResponse.json(
         { success: false, error: "Invalid game mode" },
         { status: 400 }
       );
     }
 
+    if (body.modifiers !== undefined && !isValidModifiers(body.modifiers)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid modifiers" },
+        { status: 400 }
+      );
+    }
+    const modifiers = body.modifiers ?? NO_MODIFIERS;
+    const modifiersKey = getModifiersKey(modifiers);
+
+    if (body.language !== undefined && !isValidLanguage(body.language)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid language" },
+        { status: 400 }
+      );
+    }
+    const language = body.language ?? DEFAULT_LANGUAGE;
+
+    if (body.word_list !== undefined && !isValidWordList(body.word_list)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid word list" },
+        { status: 400 }
+      );
+    }
+    const wordList = body.word_list ?? DEFAULT_WORD_LIST;
+
+    if (body.device !== undefined && !isValidDevice(body.device)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid device" },
+        { status: 400 }
+      );
+    }
+    const device = body.device ?? DEFAULT_DEVICE;
+
     const tokenHash = crypto
       .createHash("sha256")
       .update(body.token)
@@ -71,86 +131,186 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const timeSinceIssue = Date.now() - new Date(run.issued_at).getTime();
-    if (timeSinceIssue < 2000) {
+    if (!isSameGameMode(toGameMode(run.game_mode, run.game_mode_kind), body.game_mode)) {
       return NextResponse.json(
-        { success: false, error: "Game completed too quickly" },
+        { success: false, error: "Game mode does not match run session" },
         { status: 400 }
       );
     }
 
-    await supabase
-      .from("game_runs")
-      .update({ used_at: new Date().toISOString() })
-      .eq("id", body.run_id);
+    if ((run.modifiers ?? "") !== modifiersKey) {
+      return NextResponse.json(
+        { success: false, error: "Modifiers do not match run session" },
+        { status: 400 }
+      );
+    }
 
-    if (body.lps <= 0) {
+    if ((run.language ?? DEFAULT_LANGUAGE) !== language) {
       return NextResponse.json(
-        { success: false, error: "LPS must be greater than 0" },
+        { success: false, error: "Language does not match run session" },
         { status: 400 }
       );
     }
 
-    if (body.lps > 60) {
+    if ((run.word_list ?? DEFAULT_WORD_LIST) !== wordList) {
       return NextResponse.json(
-        { success: false, error: "LPS out of valid range" },
+        { success: false, error: "Word list does not match run session" },
         { status: 400 }
       );
     }
 
-    if (body.accuracy < 0 || body.accuracy > 100) {
+    if ((run.device ?? DEFAULT_DEVICE) !== device) {
+      return NextResponse.json(
+        { success: false, error: "Device does not match run session" },
+        { status: 400 }
+      );
+    }
+
+    const promptHash = crypto
+      .createHash("sha256")
+      .update(typeof body.prompt === "string" ? body.prompt : "")
+      .digest("hex");
+    if (!run.prompt_hash || promptHash !== run.prompt_hash) {
+      return NextResponse.json(
+        { success: false, error: "Prompt does not match run session" },
+        { status: 400 }
+      );
+    }
+
+    if (body.game_mode.kind !== "time" && body.total_letters !== body.prompt.length) {
+      return NextResponse.json(
+        { success: false, error: "total_letters does not match prompt" },
+        { status: 400 }
+      );
+    }
+
+    const timeSinceIssue = Date.now() - new Date(run.issued_at).getTime();
+    if (timeSinceIssue < 2000) {
+      return NextResponse.json(
+        { success: false, error: "Game completed too quickly" },
+        { status: 400 }
+      );
+    }
+
+    // One ranked daily challenge attempt per player per day
+    if (run.daily_day) {
+      if (run.player_name !== body.player_name) {
+        return NextResponse.json(
+          { success: false, error: "Player does not match run session" },
+          { status: 400 }
+        );
+      }
+
+      // Only the run that claimed the day on its first keystroke is ranked
+      if (!run.claimed_at) {
+        return NextResponse.json(
+          { success: false, error: "Daily challenge attempt was not claimed" },
+          { status: 400 }
+        );
+      }
+
+      const { data: played, error: playedError } = await supabase
+        .from("daily_results")
+        .select("id")
+        .eq("player_name", body.player_name)
+        .eq("day", run.daily_day)
+        .maybeSingle();
+
+      if (playedError) {
+        console.error("Error checking daily attempt:", playedError);
+        return NextResponse.json(
+          { success: false, error: playedError.message },
+          { status: 500 }
+        );
+      }
+
+      if (played) {
+        return NextResponse.json(
+          { success: false, error: "You already played today's challenge" },
+          { status: 409 }
+        );
+      }
+    }
+
+    await supabase
+      .from("game_runs")
+      .update({ used_at: new Date().toISOString() })
+      .eq("id", body.run_id);
+
+    const replay = replayKeystrokes(body.keystrokes, body.prompt, body.game_mode, modifiers);
+    if (!replay.valid) {
       return NextResponse.json(
-        { success: false, error: "Accuracy out of valid range" },
+        { success: false, error: replay.error },
         { status: 400 }
       );
     }
 
-    const minTimeForMode = body.game_mode === 30 ? 3.0 : 1.5;
-    if (body.time < minTimeForMode) {
+    if (forbidsCorrections(modifiers) && replay.corrected_errors > 0) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `Time too short for ${body.game_mode}-word mode. Minimum: ${minTimeForMode}s`,
-        },
+        { success: false, error: "Corrected errors are not allowed with these modifiers" },
         { status: 400 }
       );
     }
 
-    const maxTimeForMode = body.game_mode === 30 ? 300 : 120;
-    if (body.time > maxTimeForMode) {
+    if (replay.total_letters !== body.total_letters) {
       return NextResponse.json(
-        {
-          success: false,
-          error: `Time too long for ${body.game_mode}-word mode. Maximum: ${maxTimeForMode}s`,
-        },
+        { success: false, error: "total_letters does not match keystroke log" },
         { status: 400 }
       );
     }
 
-    if (body.ms_per_letter < 0 || body.ms_per_letter > 1000000) {
+    if (replay.lps <= 0) {
       return NextResponse.json(
-        { success: false, error: "ms_per_letter out of valid range" },
+        { success: false, error: "LPS must be greater than 0" },
         { status: 400 }
       );
     }
 
-    const expectedMsPerLetter = 1000 / body.lps;
-    const msDifference = Math.abs(body.ms_per_letter - expectedMsPerLetter);
-    if (msDifference > 5) {
+    if (replay.lps > MAX_LPS) {
       return NextResponse.json(
-        { success: false, error: "ms_per_letter calculation mismatch" },
+        { success: false, error: "LPS out of valid range" },
         { status: 400 }
       );
     }
 
-    const totalErrors = body.uncorrected_errors + body.corrected_errors;
+    // Timed runs have a fixed duration, so only word and code modes need time bounds
+    if (body.game_mode.kind !== "time") {
+      const gameModeLabel = getGameModeLabel(body.game_mode);
+      // Code snippets are about as long as a 30-word prompt
+      const isLongMode = body.game_mode.kind === "code" || body.game_mode.count === 30;
+
+      const minTimeForMode = isLongMode ? 3.0 : 1.5;
+      if (replay.time < minTimeForMode) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Time too short for ${gameModeLabel} mode. Minimum: ${minTimeForMode}s`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const maxTimeForMode = isLongMode ? 300 : 120;
+      if (replay.time > maxTimeForMode) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Time too long for ${gameModeLabel} mode. Maximum: ${maxTimeForMode}s`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const totalErrors = replay.uncorrected_errors + replay.corrected_errors;
     const calculatedScore = calculateScore(
-      body.lps,
-      body.accuracy,
+      replay.lps,
+      replay.accuracy,
       body.game_mode,
       totalErrors,
-      body.corrected_errors,
-      body.total_letters
+      replay.corrected_errors,
+      replay.total_letters,
+      modifiers
     );
 
     if (calculatedScore < 0 || calculatedScore > 20) {
@@ -160,13 +320,99 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const calculatedRank = calculateRank(calculatedScore, body.accuracy);
+    const calculatedRank = calculateRank(calculatedScore, replay.accuracy);
+
+    // Keep the validated run for its /run/[id] explorer page
+    const { error: detailError } = await supabase
+      .from("game_runs")
+      .update({
+        prompt: body.prompt,
+        keystrokes: body.keystrokes,
+        score: calculatedScore,
+        rank: calculatedRank,
+        lps: replay.lps,
+        accuracy: replay.accuracy,
+        time: replay.time,
+        ms_per_letter: replay.ms_per_letter,
+        wpm: replay.wpm,
+        finished_at: new Date().toISOString(),
+      })
+      .eq("id", body.run_id);
+
+    if (detailError) {
+      console.error("Error saving run detail:", detailError);
+    }
+
+    // Room runs take their podium place only once the run has been validated
+    if (run.room_code) {
+      recordFinish(run.room_code, run.room_race_number, body.player_name, replay.time);
+    }
+
+    // Runs on a prompt known in advance are kept for the explorer but never ranked
+    if (run.ranked === false) {
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        unranked: true,
+      });
+    }
+
+    // Daily attempts go to the daily leaderboard instead of the mode's personal bests
+    if (run.daily_day) {
+      const { data, error } = await supabase
+        .from("daily_results")
+        .insert([
+          {
+            day: run.daily_day,
+            player_name: body.player_name,
+            score: calculatedScore,
+            lps: replay.lps,
+            accuracy: replay.accuracy,
+            rank: calculatedRank,
+            time: replay.time,
+            ms_per_letter: replay.ms_per_letter,
+            score_version: SCORE_VERSION,
+            isTwitterUser: body.isTwitterUser ?? false,
+          },
+        ])
+        .select("id")
+        .single();
+
+      if (error) {
+        // Unique (player_name, day) violation: a concurrent submission got there first
+        if (error.code === "23505") {
+          return NextResponse.json(
+            { success: false, error: "You already played today's challenge" },
+            { status: 409 }
+          );
+        }
+        console.error("Error saving daily result:", error);
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        isNewBest: false,
+        id: data.id,
+        daily_day: run.daily_day,
+      });
+    }
 
     const { data: existingRecords, error: queryError } = await supabase
       .from("game_results")
       .select("id, score")
       .eq("player_name", body.player_name)
-      .eq("game_mode", body.game_mode)
+      .eq("game_mode", getGameModeValue(body.game_mode))
+      .or(getBucketFilter("game_mode_kind", body.game_mode.kind, "words"))
+      .or(getBucketFilter("modifiers", modifiersKey, ""))
+      .or(getBucketFilter("language", language, DEFAULT_LANGUAGE))
+      .or(getBucketFilter("word_list", wordList, DEFAULT_WORD_LIST))
+      .or(getBucketFilter("device", device, DEFAULT_DEVICE))
+      // Scores are only comparable under the same formula, so each version keeps its own best
+      .or(getScoreVersionFilter(SCORE_VERSION))
       .order("score", { ascending: false })
       .limit(1);
 
@@ -182,12 +428,19 @@ export async function POST(request: NextRequest) {
         .from("game_results")
         .update({
           score: calculatedScore,
-          lps: body.lps,
-          accuracy: body.accuracy,
+          lps: replay.lps,
+          accuracy: replay.accuracy,
           rank: calculatedRank,
-          time: body.time,
-          ms_per_letter: body.ms_per_letter,
+          time: replay.time,
+          ms_per_letter: replay.ms_per_letter,
+          wpm: replay.wpm,
+          raw_wpm: replay.raw_wpm,
+          consistency: replay.consistency,
+          pacer_chain: run.pacer_chain ?? DEFAULT_PACER_CHAIN,
+          score_version: SCORE_VERSION,
           isTwitterUser: body.isTwitterUser ?? false,
+          prompt: body.prompt,
+          keystrokes: body.keystrokes,
         })
         .eq("id", existingRecord.id)
         .select();
@@ -218,13 +471,25 @@ export async function POST(request: NextRequest) {
           {
             player_name: body.player_name,
             score: calculatedScore,
-            lps: body.lps,
-            accuracy: body.accuracy,
+            lps: replay.lps,
+            accuracy: replay.accuracy,
             rank: calculatedRank,
-            time: body.time,
-            ms_per_letter: body.ms_per_letter,
-            game_mode: body.game_mode,
+            time: replay.time,
+            ms_per_letter: replay.ms_per_letter,
+            wpm: replay.wpm,
+            raw_wpm: replay.raw_wpm,
+            consistency: replay.consistency,
+            game_mode: getGameModeValue(body.game_mode),
+            game_mode_kind: body.game_mode.kind,
+            modifiers: modifiersKey,
+            language: language,
+            word_list: wordList,
+            device: device,
+            pacer_chain: run.pacer_chain ?? DEFAULT_PACER_CHAIN,
+            score_version: SCORE_VERSION,
             isTwitterUser: body.isTwitterUser ?? false,
+            prompt: body.prompt,
+            keystrokes: body.keystrokes,
           },
         ])
         .select();
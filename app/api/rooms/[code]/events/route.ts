@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RoomEvent } from "../../../../../lib/types";
+import { getRoom, roomTransport, toRoomSnapshot } from "../../../../../lib/race-rooms";
+
+export const dynamic = "force-dynamic";
+
+// Server-sent events stream of room snapshots, fed by the room transport
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const { code } = await params;
+  const room = getRoom(code);
+
+  if (!room) {
+    return NextResponse.json(
+      { success: false, error: "Room not found" },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: RoomEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Stream already closed
+          unsubscribe();
+        }
+      };
+
+      send({ type: "room", room: toRoomSnapshot(room) });
+      unsubscribe = roomTransport.subscribe(room.code, send);
+
+      request.signal.addEventListener("abort", () => {
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      });
+    },
+    cancel() {
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { JoinRoomRequest, RoomMembershipResponse } from "../../../../../lib/types";
+import { isNameValid } from "../../../../../lib/name-validation";
+import { joinRoom, toRoomSnapshot } from "../../../../../lib/race-rooms";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const body: JoinRoomRequest = await request.json();
+
+    if (!body.player_name) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const nameValidation = isNameValid(body.player_name);
+    if (!nameValidation.valid) {
+      return NextResponse.json(
+        { success: false, error: nameValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = joinRoom(code, body.player_name);
+    if (!result.room || !result.token) {
+      return NextResponse.json(
+        { success: false, error: result.error ?? "Failed to join room" },
+        { status: 400 }
+      );
+    }
+
+    const response: RoomMembershipResponse = {
+      code: result.room.code,
+      player_token: result.token,
+      room: toRoomSnapshot(result.room),
+    };
+
+    return NextResponse.json({ success: true, ...response });
+  } catch (err) {
+    console.error("Unexpected error joining room:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
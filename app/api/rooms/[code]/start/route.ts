@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { RoomPlayerRequest } from "../../../../../lib/types";
+import { startRace } from "../../../../../lib/race-rooms";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const body: RoomPlayerRequest = await request.json();
+
+    if (!body.player_token) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const result = startRace(code, body.player_token);
+    if (!result.room) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Unexpected error starting room:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { CreateRoomRequest, RoomMembershipResponse } from "../../../lib/types";
+import { isNameValid } from "../../../lib/name-validation";
+import { isValidGameMode } from "../../../lib/constants";
+import { createRoom, toRoomSnapshot } from "../../../lib/race-rooms";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateRoomRequest = await request.json();
+
+    if (!body.player_name || body.game_mode === undefined) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const nameValidation = isNameValid(body.player_name);
+    if (!nameValidation.valid) {
+      return NextResponse.json(
+        { success: false, error: nameValidation.error },
+        { status: 400 }
+      );
+    }
+
+    // Rooms race to the end of a shared prompt, so only word modes make sense
+    if (!isValidGameMode(body.game_mode) || body.game_mode.kind !== "words") {
+      return NextResponse.json(
+        { success: false, error: "Invalid game mode" },
+        { status: 400 }
+      );
+    }
+
+    const result = createRoom(body.player_name, body.game_mode);
+    if (!result.room || !result.token) {
+      return NextResponse.json(
+        { success: false, error: result.error ?? "Failed to create room" },
+        { status: 500 }
+      );
+    }
+
+    const response: RoomMembershipResponse = {
+      code: result.room.code,
+      player_token: result.token,
+      room: toRoomSnapshot(result.room),
+    };
+
+    return NextResponse.json({ success: true, ...response });
+  } catch (err) {
+    console.error("Unexpected error creating room:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseServerClient } from "../../../../lib/supabase";
+import type { RunDetail } from "../../../../lib/types";
+import { parseModifiersKey, toGameMode } from "../../../../lib/constants";
+import { DEFAULT_PACER_CHAIN } from "../../../../lib/chains";
+import { getDailyDay } from "../../../../lib/prompt";
+
+// Only the public detail of a run; the token hash, IP and user agent stay on the server
+const RUN_DETAIL_COLUMNS =
+  "id, player_name, game_mode, game_mode_kind, modifiers, pacer_chain, daily_day, prompt, keystrokes, score, rank, lps, accuracy, time, ms_per_letter, wpm, finished_at";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = getSupabaseServerClient();
+
+    // Runs are only persisted once their result has been validated
+    const { data: run, error } = await supabase
+      .from("game_runs")
+      .select(RUN_DETAIL_COLUMNS)
+      .eq("id", id)
+      .not("finished_at", "is", null)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching run detail:", error);
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!run) {
+      return NextResponse.json(
+        { success: false, error: "Run not found" },
+        { status: 404 }
+      );
+    }
+
+    // Today's daily prompt stays private until the challenge closes at the end of the UTC day
+    const hidePrompt = run.daily_day !== null && run.daily_day >= getDailyDay();
+
+    const detail: RunDetail = {
+      id: run.id,
+      player_name: run.player_name,
+      game_mode: toGameMode(run.game_mode, run.game_mode_kind),
+      modifiers: parseModifiersKey(run.modifiers),
+      pacer_chain: run.pacer_chain ?? DEFAULT_PACER_CHAIN,
+      prompt: hidePrompt ? null : run.prompt,
+      keystrokes: hidePrompt ? null : run.keystrokes,
+      score: run.score,
+      rank: run.rank,
+      lps: run.lps,
+      accuracy: run.accuracy,
+      time: run.time,
+      ms_per_letter: run.ms_per_letter,
+      wpm: run.wpm,
+      finished_at: run.finished_at,
+    };
+
+    return NextResponse.json({ success: true, run: detail });
+  } catch (err) {
+    console.error("Unexpected error fetching run detail:", err);
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseServerClient } from "../../../lib/supabase";
-import type { StartRunRequest, StartRunResponse } from "../../../lib/types";
+import type { KeystrokeEvent, StartRunRequest, StartRunResponse } from "../../../lib/types";
+import {
+  createSeed,
+  generateDailyPrompt,
+  generatePrompt,
+  getDailyDay,
+  isValidSeed,
+} from "../../../lib/prompt";
+import {
+  DAILY_GAME_MODE,
+  DEFAULT_DEVICE,
+  DEFAULT_LANGUAGE,
+  DEFAULT_WORD_LIST,
+  NO_MODIFIERS,
+  getBucketFilter,
+  getDeviceFromUserAgent,
+  getGameModeValue,
+  getModifiersKey,
+  isSameGameMode,
+  isValidGameMode,
+  isValidLanguage,
+  isValidModifiers,
+  isValidWordList,
+} from "../../../lib/constants";
+import { getRaceRun } from "../../../lib/race-rooms";
+import { DEFAULT_PACER_CHAIN, fetchChains, isValidChainKey } from "../../../lib/chains";
+import { SCORE_VERSION, getScoreVersionFilter } from "../../../lib/scoring";
 import crypto from "crypto";
 
 export async function POST(request: NextRequest) {
@@ -22,13 +48,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (![15, 30].includes(body.game_mode)) {
+    if (!isValidGameMode(body.game_mode)) {
       return NextResponse.json(
         { success: false, error: "Invalid game mode" },
         { status: 400 }
       );
     }
 
+    if (body.seed !== undefined && !isValidSeed(body.seed)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid seed" },
+        { status: 400 }
+      );
+    }
+
+    if (body.modifiers !== undefined && !isValidModifiers(body.modifiers)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid modifiers" },
+        { status: 400 }
+      );
+    }
+
+    if (body.language !== undefined && !isValidLanguage(body.language)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid language" },
+        { status: 400 }
+      );
+    }
+
+    if (body.word_list !== undefined && !isValidWordList(body.word_list)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid word list" },
+        { status: 400 }
+      );
+    }
+
     const token = crypto.randomBytes(32).toString("base64url");
     const tokenHash = crypto.createHash("sha256").update(token).digest("hex");
 
@@ -37,22 +91,161 @@ export async function POST(request: NextRequest) {
       request.headers.get("x-real-ip") ||
       "unknown";
     const userAgent = request.headers.get("user-agent") || "unknown";
+    const device = getDeviceFromUserAgent(userAgent);
 
+    // Runs are issued when the prompt is shown, so the window covers idle time before the first key
     const issuedAt = new Date();
-    const expiresAt = new Date(issuedAt.getTime() + 30 * 1000);
+    const expiresAt = new Date(issuedAt.getTime() + 10 * 60 * 1000);
 
     const supabase = getSupabaseServerClient();
 
+    // Chains are admin-editable, so the pacer is checked against the registry as it is now
+    const chains = await fetchChains(supabase);
+    if (body.pacer_chain !== undefined && !isValidChainKey(chains, body.pacer_chain)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid pacer chain" },
+        { status: 400 }
+      );
+    }
+
+    // Code snippets ignore the prompt modifiers and word lists, and the web3 vocabulary is english only
+    const isCode = body.game_mode.kind === "code";
+    let modifiers = isCode ? NO_MODIFIERS : body.modifiers ?? NO_MODIFIERS;
+    let wordList = isCode ? DEFAULT_WORD_LIST : body.word_list ?? DEFAULT_WORD_LIST;
+    let language =
+      isCode || wordList === "web3" ? DEFAULT_LANGUAGE : body.language ?? DEFAULT_LANGUAGE;
+    const pacerChain = body.pacer_chain ?? DEFAULT_PACER_CHAIN;
+    let seed: string | undefined = body.seed ?? createSeed();
+    // A prompt known in advance (a requested seed or a ghost's personal best) could have been
+    // practised, so its run is unranked
+    let ranked = body.seed === undefined;
+    let prompt = generatePrompt(body.game_mode, seed, modifiers, language, wordList);
+    let ghostKeystrokes: KeystrokeEvent[] | undefined;
+    let roomRace: { code: string; race_number: number } | null = null;
+    let dailyDay: string | null = null;
+
+    // Room races share the prompt issued when the host started the race
+    if (body.room) {
+      const { race, error: raceError } = getRaceRun(body.room.code, body.room.player_token);
+      if (!race) {
+        return NextResponse.json(
+          { success: false, error: raceError },
+          { status: 400 }
+        );
+      }
+
+      if (
+        race.player_name !== body.player_name ||
+        !isSameGameMode(race.game_mode, body.game_mode)
+      ) {
+        return NextResponse.json(
+          { success: false, error: "Run does not match room race" },
+          { status: 400 }
+        );
+      }
+
+      // Rooms and the daily challenge use plain prompts
+      prompt = race.prompt;
+      seed = race.seed ?? undefined;
+      ranked = true;
+      modifiers = NO_MODIFIERS;
+      language = DEFAULT_LANGUAGE;
+      wordList = DEFAULT_WORD_LIST;
+      roomRace = { code: race.code, race_number: race.race_number };
+    } else if (body.daily) {
+      if (!isSameGameMode(body.game_mode, DAILY_GAME_MODE)) {
+        return NextResponse.json(
+          { success: false, error: "Invalid game mode for the daily challenge" },
+          { status: 400 }
+        );
+      }
+
+      dailyDay = getDailyDay(issuedAt);
+
+      // The first keystroke of a daily run claims the day (see /api/claim-daily), so changing
+      // settings or restarting before typing doesn't use up the attempt
+      const { data: played, error: playedError } = await supabase
+        .from("game_runs")
+        .select("id")
+        .eq("player_name", body.player_name)
+        .eq("daily_day", dailyDay)
+        .not("claimed_at", "is", null)
+        .limit(1)
+        .maybeSingle();
+
+      if (playedError) {
+        console.error("Error checking daily attempt:", playedError);
+        return NextResponse.json(
+          { success: false, error: playedError.message },
+          { status: 500 }
+        );
+      }
+
+      if (played) {
+        return NextResponse.json(
+          { success: false, error: "You already played today's challenge" },
+          { status: 409 }
+        );
+      }
+
+      prompt = generateDailyPrompt(dailyDay);
+      modifiers = NO_MODIFIERS;
+      language = DEFAULT_LANGUAGE;
+      wordList = DEFAULT_WORD_LIST;
+      // Keep today's prompt off shareable links
+      seed = undefined;
+      ranked = true;
+    } else if (body.ghost) {
+      // Ghost races replay the player's personal best, so the run gets that run's prompt
+      const { data: best, error: bestError } = await supabase
+        .from("game_results")
+        .select("prompt, keystrokes")
+        .eq("player_name", body.player_name)
+        .eq("game_mode", getGameModeValue(body.game_mode))
+        .or(getBucketFilter("game_mode_kind", body.game_mode.kind, "words"))
+        .or(getBucketFilter("modifiers", getModifiersKey(modifiers), ""))
+        .or(getBucketFilter("language", language, DEFAULT_LANGUAGE))
+        .or(getBucketFilter("word_list", wordList, DEFAULT_WORD_LIST))
+        .or(getBucketFilter("device", device, DEFAULT_DEVICE))
+        // Ghosts race the best run under the current formula, like the personal best it stands for
+        .or(getScoreVersionFilter(SCORE_VERSION))
+        .order("score", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (bestError) {
+        console.error("Error loading personal best for ghost:", bestError);
+      } else if (best?.prompt && Array.isArray(best.keystrokes)) {
+        prompt = best.prompt;
+        ghostKeystrokes = best.keystrokes;
+        seed = undefined;
+        ranked = false;
+      }
+    }
+
+    const promptHash = crypto.createHash("sha256").update(prompt).digest("hex");
+
     const { data, error } = await supabase
       .from("game_runs")
       .insert([
         {
           token_hash: tokenHash,
+          prompt_hash: promptHash,
+          room_code: roomRace?.code ?? null,
+          room_race_number: roomRace?.race_number ?? null,
+          daily_day: dailyDay,
+          ranked: ranked,
           issued_at: issuedAt.toISOString(),
           expires_at: expiresAt.toISOString(),
           ip: ip,
           user_agent: userAgent,
-          game_mode: body.game_mode,
+          game_mode: getGameModeValue(body.game_mode),
+          game_mode_kind: body.game_mode.kind,
+          modifiers: getModifiersKey(modifiers),
+          language: language,
+          word_list: wordList,
+          device: device,
+          pacer_chain: pacerChain,
           player_name: body.player_name,
         },
       ])
@@ -71,6 +264,16 @@ export async function POST(request: NextRequest) {
       run_id: data.id,
       token: token,
       expires_at: Math.floor(expiresAt.getTime() / 1000),
+      prompt: prompt,
+      ghost_keystrokes: ghostKeystrokes,
+      daily_day: dailyDay ?? undefined,
+      seed: seed,
+      ranked: ranked,
+      modifiers: modifiers,
+      language: language,
+      word_list: wordList,
+      device: device,
+      pacer_chain: pacerChain,
     };
 
     return NextResponse.json({ success: true, ...response });
@@ -3,13 +3,52 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { AnimatePresence, motion } from "framer-motion";
-import { getLeaderboard } from "../../lib/scores";
-import type { LeaderboardEntry } from "../../lib/types";
+import { getDailyLeaderboard, getDailyWinners, getLeaderboard } from "../../lib/scores";
+import { getDailyDay } from "../../lib/prompt";
+import type { DailyResultEntry, LeaderboardEntry, LeaderboardSortKey } from "../../lib/types";
 import Footer from "../../components/Footer";
-import { GAME_MODES, type GameMode } from "../../lib/constants";
+import {
+  DEFAULT_DEVICE,
+  DEFAULT_GAME_MODE,
+  DEFAULT_LANGUAGE,
+  DEFAULT_WORD_LIST,
+  GAME_MODES,
+  LANGUAGES,
+  NO_MODIFIERS,
+  PROMPT_MODIFIERS,
+  getGameModeKey,
+  getGameModeLabel,
+  getLanguageLabel,
+  getModifiersLabel,
+  getWordListLabel,
+  isSameGameMode,
+  parseModifiersKey,
+  toGameMode,
+  type Device,
+  type GameMode,
+  type Language,
+  type PromptModifiers,
+  type WordList,
+} from "../../lib/constants";
+import { SCORE_VERSION, SCORE_VERSIONS, getScoreVersion } from "../../lib/scoring";
 
 const ITEMS_PER_PAGE = 20;
 
+// Stat columns, each one sortable
+const STAT_COLUMNS: { key: LeaderboardSortKey; label: string; decimals: number; suffix?: string }[] = [
+  { key: "score", label: "score", decimals: 2 },
+  { key: "wpm", label: "wpm", decimals: 1 },
+  { key: "raw_wpm", label: "raw", decimals: 1 },
+  { key: "consistency", label: "cons", decimals: 1, suffix: "%" },
+  { key: "lps", label: "lps", decimals: 2 },
+  { key: "accuracy", label: "acc", decimals: 1, suffix: "%" },
+];
+
+// Daily entries and rows from before WPM was tracked have no value for the newer columns
+function getStat(leader: LeaderboardEntry | DailyResultEntry, key: LeaderboardSortKey): number | null {
+  return (leader as LeaderboardEntry)[key] ?? null;
+}
+
 // Helper function to extract rank name (returns full rank with emoji)
 function getRankName(fullRank: string): string {
   if (!fullRank) return "";
@@ -29,8 +68,18 @@ function getRankName(fullRank: string): string {
 }
 
 export default function LeaderboardPage() {
-  const [gameMode, setGameMode] = useState<GameMode>(15);
-  const [leaders, setLeaders] = useState<LeaderboardEntry[]>([]);
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE);
+  const [modifiers, setModifiers] = useState<PromptModifiers>(NO_MODIFIERS);
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const [wordList, setWordList] = useState<WordList>(DEFAULT_WORD_LIST);
+  const [device, setDevice] = useState<Device>(DEFAULT_DEVICE);
+  const [sortBy, setSortBy] = useState<LeaderboardSortKey>("score");
+  // Scoring formula version, null to mix every version
+  const [scoreVersion, setScoreVersion] = useState<number | null>(SCORE_VERSION);
+  // Day shown on the daily tab, null when a game mode's leaderboard is shown
+  const [dailyDay, setDailyDay] = useState<string | null>(null);
+  const [dailyWinners, setDailyWinners] = useState<DailyResultEntry[]>([]);
+  const [leaders, setLeaders] = useState<(LeaderboardEntry | DailyResultEntry)[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
@@ -40,7 +89,9 @@ export default function LeaderboardPage() {
       setLoading(true);
       setError(null);
       // Fetch a large number of entries for pagination (500 should be enough)
-      const { data, error: fetchError } = await getLeaderboard(gameMode, 500);
+      const { data, error: fetchError } = dailyDay
+        ? await getDailyLeaderboard(dailyDay, 500)
+        : await getLeaderboard(gameMode, 500, modifiers, sortBy, language, wordList, device, scoreVersion);
       
       if (fetchError) {
         setError(fetchError);
@@ -54,7 +105,13 @@ export default function LeaderboardPage() {
     };
 
     fetchLeaderboard();
-  }, [gameMode]);
+  }, [gameMode, modifiers, sortBy, language, wordList, device, scoreVersion, dailyDay]);
+
+  const showingDaily = dailyDay !== null;
+  useEffect(() => {
+    if (!showingDaily) return;
+    getDailyWinners(getDailyDay()).then(({ data }) => setDailyWinners(data || []));
+  }, [showingDaily]);
 
   // Calculate pagination
   const totalPages = Math.ceil(leaders.length / ITEMS_PER_PAGE);
@@ -102,20 +159,131 @@ export default function LeaderboardPage() {
             <div className="flex items-center space-x-2 rounded-lg bg-dark-kbd px-2 py-1 text-sm font-mono">
               {GAME_MODES.map((mode) => (
                 <button
-                  key={mode}
-                  onClick={() => setGameMode(mode)}
+                  key={getGameModeKey(mode)}
+                  onClick={() => {
+                    setGameMode(mode);
+                    setDailyDay(null);
+                  }}
                   className={`px-3 py-1 rounded transition-colors ${
-                    gameMode === mode
+                    !showingDaily && isSameGameMode(gameMode, mode)
                       ? "bg-dark-highlight text-black"
                       : "text-dark-dim hover:text-dark-main"
                   }`}
                 >
-                  {mode} words
+                  {getGameModeLabel(mode)}
                 </button>
               ))}
+              <div className="h-4 w-px bg-dark-dim" />
+              <button
+                onClick={() => setDailyDay(getDailyDay())}
+                className={`px-3 py-1 rounded transition-colors ${
+                  showingDaily
+                    ? "bg-dark-highlight text-black"
+                    : "text-dark-dim hover:text-dark-main"
+                }`}
+              >
+                daily
+              </button>
             </div>
           </div>
 
+          {/* Device, language and prompt modifiers filters, each combination is its own bucket */}
+          {!dailyDay && (
+            <div className="mb-4 flex items-center justify-end space-x-4 text-sm font-mono">
+              <label className="flex items-center space-x-1 text-dark-dim" title="Scoring formula">
+                <i className="fa-solid fa-calculator h-3 w-3" />
+                <select
+                  value={scoreVersion ?? "all"}
+                  onChange={(e) => setScoreVersion(e.target.value === "all" ? null : Number(e.target.value))}
+                  className="bg-transparent lowercase text-dark-main focus:outline-none"
+                >
+                  {SCORE_VERSIONS.map((option) => (
+                    <option key={option.version} value={option.version} title={option.description} className="bg-dark-kbd">
+                      score v{option.version}
+                    </option>
+                  ))}
+                  <option value="all" className="bg-dark-kbd">
+                    every version
+                  </option>
+                </select>
+              </label>
+              <div className="h-4 w-px bg-dark-dim" />
+              <button
+                onClick={() => setDevice((prev) => (prev === "mobile" ? DEFAULT_DEVICE : "mobile"))}
+                className={`flex items-center space-x-1 transition-colors ${
+                  device === "mobile" ? "text-dark-highlight" : "text-dark-dim hover:text-dark-main"
+                }`}
+              >
+                <i className="fa-solid fa-mobile-screen h-3 w-3" />
+                <span>mobile</span>
+              </button>
+              {/* Code modes ignore the word list and modifiers */}
+              {gameMode.kind !== "code" && (
+                <>
+                  <div className="h-4 w-px bg-dark-dim" />
+                  <button
+                    onClick={() => setWordList((prev) => (prev === "web3" ? DEFAULT_WORD_LIST : "web3"))}
+                    className={`flex items-center space-x-1 transition-colors ${
+                      wordList === "web3" ? "text-dark-highlight" : "text-dark-dim hover:text-dark-main"
+                    }`}
+                  >
+                    <i className="fa-solid fa-cube h-3 w-3" />
+                    <span>web3</span>
+                  </button>
+                  <label className="flex items-center space-x-1 text-dark-dim">
+                    <i className="fa-solid fa-globe h-3 w-3" />
+                    <select
+                      value={language}
+                      disabled={wordList === "web3"}
+                      onChange={(e) => setLanguage(e.target.value as Language)}
+                      className="bg-transparent lowercase text-dark-main focus:outline-none disabled:opacity-50"
+                    >
+                      {LANGUAGES.map((option) => (
+                        <option key={option.key} value={option.key} className="bg-dark-kbd">
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="h-4 w-px bg-dark-dim" />
+                  {PROMPT_MODIFIERS.map((modifier) => (
+                    <button
+                      key={modifier.key}
+                      onClick={() =>
+                        setModifiers((prev) => ({ ...prev, [modifier.key]: !prev[modifier.key] }))
+                      }
+                      className={`flex items-center space-x-1 transition-colors ${
+                        modifiers[modifier.key]
+                          ? "text-dark-highlight"
+                          : "text-dark-dim hover:text-dark-main"
+                      }`}
+                    >
+                      <i className={`fa-solid ${modifier.icon} h-3 w-3`} />
+                      <span>{modifier.label}</span>
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+
+          {dailyDay && (
+            <div className="mb-4 flex items-center space-x-3 text-sm font-mono text-dark-dim">
+              <span>
+                daily challenge · {dailyDay}
+                {dailyDay === getDailyDay() && " (today)"}
+              </span>
+              {dailyDay !== getDailyDay() && (
+                <button
+                  onClick={() => setDailyDay(getDailyDay())}
+                  className="hover:text-dark-highlight transition-colors"
+                >
+                  back to today
+                </button>
+              )}
+            </div>
+          )}
+
           {loading ? (
             <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 p-8 text-center text-dark-dim font-mono">
               <i className="fa fa-spinner fa-spin h-6 w-6 mx-auto mb-2" />
@@ -128,18 +296,37 @@ export default function LeaderboardPage() {
             </div>
           ) : leaders.length === 0 ? (
             <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 p-8 text-center text-dark-dim font-mono">
-              <div>No scores yet for {gameMode} words mode.</div>
+              <div>
+                {dailyDay
+                  ? `No scores yet for the ${dailyDay} daily challenge.`
+                  : `No scores yet for ${getGameModeLabel(gameMode)} mode.`}
+              </div>
               <div className="text-sm mt-2">Be the first to set a record!</div>
             </div>
           ) : (
             <>
               <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40">
-                <div className="grid grid-cols-[minmax(140px,180px)_1fr_auto_auto_auto] gap-3 border-b border-dark-kbd px-4 py-3 text-xs font-mono uppercase tracking-widest text-dark-dim">
+                <div className="grid grid-cols-[minmax(140px,180px)_1fr_repeat(6,auto)] gap-3 border-b border-dark-kbd px-4 py-3 text-xs font-mono uppercase tracking-widest text-dark-dim">
                   <div className="text-left">rank</div>
                   <div className="text-left">user</div>
-                  <div className="text-right">score</div>
-                  <div className="text-right">lps</div>
-                  <div className="text-right">acc</div>
+                  {STAT_COLUMNS.map((column) => (
+                    <button
+                      key={column.key}
+                      onClick={() => setSortBy(column.key)}
+                      disabled={showingDaily}
+                      className={`text-right uppercase tracking-widest transition-colors disabled:cursor-default ${
+                        !showingDaily && sortBy === column.key
+                          ? "text-dark-highlight"
+                          : "hover:text-dark-main disabled:hover:text-dark-dim"
+                      }`}
+                      title={showingDaily ? undefined : `Sort by ${column.label}`}
+                    >
+                      {column.label}
+                      {!showingDaily && sortBy === column.key && (
+                        <i className="fa fa-caret-down ml-1" />
+                      )}
+                    </button>
+                  ))}
                 </div>
                 <AnimatePresence mode="wait">
                   <motion.div
@@ -156,7 +343,7 @@ export default function LeaderboardPage() {
                         initial={{ opacity: 0 }}
                         animate={{ opacity: 1 }}
                         transition={{ duration: 0.15, delay: idx * 0.02 }}
-                        className="grid grid-cols-[minmax(140px,180px)_1fr_auto_auto_auto] gap-3 px-4 py-3 text-sm font-mono"
+                        className="grid grid-cols-[minmax(140px,180px)_1fr_repeat(6,auto)] gap-3 px-4 py-3 text-sm font-mono"
                       >
                         <div className="text-left">
                           <div className="text-dark-dim">#{startIndex + idx + 1}</div>
@@ -182,11 +369,38 @@ export default function LeaderboardPage() {
                               <span>{leader.player_name}</span>
                             )}
                           </div>
-                          <div className="text-xs text-dark-dim">{leader.game_mode} words</div>
+                          <div className="text-xs text-dark-dim">
+                            {"day" in leader
+                              ? `daily ${leader.day}`
+                              : [
+                                  getGameModeLabel(toGameMode(leader.game_mode, leader.game_mode_kind)),
+                                  getModifiersLabel(parseModifiersKey(leader.modifiers)),
+                                  leader.word_list && leader.word_list !== DEFAULT_WORD_LIST
+                                    ? getWordListLabel(leader.word_list)
+                                    : "",
+                                  leader.language && leader.language !== DEFAULT_LANGUAGE
+                                    ? getLanguageLabel(leader.language)
+                                    : "",
+                                  leader.device === "mobile" ? "mobile" : "",
+                                  // Rows scored by an older formula are marked when versions are mixed
+                                  getScoreVersion(leader) !== SCORE_VERSION ? `score v${getScoreVersion(leader)}` : "",
+                                ]
+                                  .filter(Boolean)
+                                  .join(", ")}
+                          </div>
                         </div>
-                        <div className="text-right text-dark-highlight">{leader.score.toFixed(2)}</div>
-                        <div className="text-right text-dark-main">{leader.lps.toFixed(2)}</div>
-                        <div className="text-right text-dark-main">{leader.accuracy.toFixed(1)}%</div>
+                        {STAT_COLUMNS.map((column) => {
+                          const value = getStat(leader, column.key);
+                          const sorted = showingDaily ? column.key === "score" : sortBy === column.key;
+                          return (
+                            <div
+                              key={column.key}
+                              className={`text-right ${sorted ? "text-dark-highlight" : "text-dark-main"}`}
+                            >
+                              {value === null ? "—" : `${value.toFixed(column.decimals)}${column.suffix ?? ""}`}
+                            </div>
+                          );
+                        })}
                       </motion.div>
                     ))}
                   </motion.div>
@@ -259,6 +473,31 @@ export default function LeaderboardPage() {
               )}
             </>
           )}
+
+          {/* Past daily challenge winners */}
+          {showingDaily && dailyWinners.length > 0 && (
+            <div className="mt-10">
+              <div className="mb-3 flex items-center space-x-3">
+                <i className="fa fa-trophy h-5 w-5 text-dark-highlight" />
+                <h2 className="text-lg font-semibold font-mono">past winners</h2>
+              </div>
+              <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 divide-y divide-dark-kbd">
+                {dailyWinners.map((winner) => (
+                  <button
+                    key={winner.day}
+                    onClick={() => setDailyDay(winner.day)}
+                    className={`grid w-full grid-cols-[120px_1fr_auto] gap-3 px-4 py-3 text-left text-sm font-mono transition-colors hover:bg-dark-kbd ${
+                      winner.day === dailyDay ? "text-dark-highlight" : "text-dark-main"
+                    }`}
+                  >
+                    <span className="text-dark-dim">{winner.day}</span>
+                    <span>{winner.player_name}</span>
+                    <span className="text-right text-dark-highlight">{winner.score.toFixed(2)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </main>
 
@@ -1,20 +1,83 @@
 "use client"; // This is CRITICAL for React Hooks to work in the App Router
 
-import { useCallback, useEffect, useRef, useState, useMemo } from "react";
+import { Fragment, useCallback, useEffect, useRef, useState, useMemo } from "react";
 import { AnimatePresence, motion, Variants, HTMLMotionProps, animate, useMotionValue, useTransform } from "framer-motion";
 import Link from "next/link";
 import html2canvas from "html2canvas";
-import dictionary from "../lib/dictionary";
-import shuffle from "../lib/shuffle";
-import { saveGameResult, getLeaderboard, getUserBestScore, getUserProfile, clearPlayerData, getStoredPlayerName, setStoredPlayerName, restoreUserDataFromDB, getAllUserScores, getStoredTwitterAvatar, setStoredTwitterAvatar, clearStoredTwitterAvatar } from "../lib/scores";
-import type { LeaderboardEntry } from "../lib/types";
+import { createSeed, generateDailyPrompt, generatePrompt, getDailyDay, isValidSeed } from "../lib/prompt";
+import { calculateRank, calculateScore } from "../lib/scoring";
+import {
+  DELETE_WORD_KEY,
+  MAX_OVERFLOW,
+  calculateSpeedMetrics,
+  getCaretTimeline,
+  getDeleteWordTarget,
+  getNextWordStart,
+  getSpeedTimeline,
+  getWordStart,
+  isWordBoundary,
+  type SpeedTimeline,
+} from "../lib/keystroke-replay";
+import { addRunToKeyStats, calculateKeyStats, type KeyStats } from "../lib/key-stats";
+import { addWordsTypedToday, getTypedVocabulary } from "../lib/vocabulary";
+import { getCodeIndents } from "../lib/code-snippets";
+import { saveGameResult, getChains, getLeaderboard, getUserBestScore, getUserProfile, clearPlayerData, getStoredPlayerName, setStoredPlayerName, restoreUserDataFromDB, getAllUserScores, getStoredTwitterAvatar, setStoredTwitterAvatar, clearStoredTwitterAvatar } from "../lib/scores";
+import type { KeystrokeEvent, LeaderboardEntry } from "../lib/types";
 import OnboardingOverlay from "../components/OnboardingOverlay";
 import CountUp from "../components/CountUp";
 import { Confetti, type ConfettiRef } from "../components/Confetti";
 import Footer from "../components/Footer";
 import WelcomeToProofOfSpeed from "../components/WelcomeToProofOfSpeed";
+import RaceRoomPanel from "../components/RaceRoomPanel";
+import CustomTextPanel from "../components/CustomTextPanel";
+import KeyboardHeatmap from "../components/KeyboardHeatmap";
+import VocabularyList from "../components/VocabularyList";
+import SpeedChart from "../components/SpeedChart";
+import ChainBreakdown from "../components/ChainBreakdown";
+import ChainRace, { type GradientStop } from "../components/ChainRace";
+import { RacePodium, RaceProgress } from "../components/RaceProgress";
+import { useRaceRoom, type RoomMembership } from "../lib/use-race-room";
 import { supabase } from "../lib/supabase";
-import { GAME_MODES, SUB_BLOCK_SPEED_MS, type GameMode } from "../lib/constants";
+import {
+  DAILY_GAME_MODE,
+  DEFAULT_DEVICE,
+  DEFAULT_GAME_MODE,
+  DEFAULT_LANGUAGE,
+  DEFAULT_WORD_LIST,
+  GAME_MODES,
+  LANGUAGES,
+  NO_MODIFIERS,
+  PROMPT_MODIFIERS,
+  getDeviceFromUserAgent,
+  getGameModeKey,
+  getGameModeLabel,
+  getGameModeValue,
+  getLanguageLabel,
+  getModifiersKey,
+  getModifiersLabel,
+  getWordListLabel,
+  isSameGameMode,
+  isValidLanguage,
+  isValidWordList,
+  parseGameModeKey,
+  parseModifiersKey,
+  toGameMode,
+  type Device,
+  type GameMode,
+  type GameModeKind,
+  type Language,
+  type PromptModifiers,
+  type WordList,
+} from "../lib/constants";
+import {
+  DEFAULT_CHAINS,
+  DEFAULT_PACER_CHAIN,
+  getChain,
+  getChainPositions,
+  getSpeedComparison,
+  getSpeedPosition,
+  type Chain,
+} from "../lib/chains";
 
 // Rank descriptions
 const RANK_DESCRIPTIONS: Record<string, string> = {
@@ -55,49 +118,33 @@ const DEFAULT_RESULTS = {
   speedComparison: "",
   time: "",
   msPerLetter: "0",
+  letters: 0,
+  durationMs: 0,
   comparison: "0",
+  pacerChain: DEFAULT_PACER_CHAIN,
+  beatPacer: false,
+  wpm: "0",
+  rawWpm: "0",
+  consistency: "0%",
 };
 
-const FALLBACK_SENTENCES = [
-  "ten word sentence this is exactly 35",
-  "another fast one for you to type quick",
-  "etherlink instant confirmations are so fast",
-  "proof of speed with this one simple test",
-  "pro gamer speed could win this one game",
+// Mode selector groups, each followed by its word counts or time limits
+const MODE_KIND_OPTIONS: { kind: GameModeKind; label: string; icon: string }[] = [
+  { kind: "words", label: "words", icon: "fa-hashtag" },
+  { kind: "time", label: "time", icon: "fa-clock" },
+  { kind: "code", label: "code", icon: "fa-code" },
 ];
 
-const generateSentence = (wordCount: number) => {
-  try {
-    const words = shuffle(dictionary);
-    const sentenceWords = words.slice(0, wordCount);
-    return sentenceWords.join(" ");
-  } catch {
-    return FALLBACK_SENTENCES[Math.floor(Math.random() * FALLBACK_SENTENCES.length)];
-  }
-};
+// Kept in the hidden typing input so touch keyboards always have something to delete
+// and report Backspace even when the player has typed nothing yet
+const INPUT_SENTINEL = " ";
 
-// Static blockchain configuration - moved outside component to avoid recreation
-const BLOCKCHAIN_THRESHOLDS = [
-  { ms: 600000, position: 0 },   // Bitcoin
-  { ms: 12000, position: 16.67 },    // Ethereum Mainnet
-  { ms: 2000, position: 33.33 },     // Polygon
-  { ms: 1000, position: 50 },     // ETH L2s
-  { ms: 400, position: 66.67 },       // Solana
-  { ms: 200, position: 83.33 },     // Base
-  { ms: 20, position: 100 },     // Instant confirmations
-];
+// Prompts are rendered in batches of words; timed prompts stream in as the caret nears the end
+const WORD_RENDER_BATCH = 40;
+const STREAM_AHEAD_LETTERS = 80;
 
 const BG_COLOR = '#323437';
 
-const LOGO_COLORS: Record<string, string[]> = {
-  'btc': ['#F7931A', '#FFFFFF'], // Bitcoin: orange bg, white symbol
-  'eth': ['#627EEA', '#FFFFFF'], // Ethereum: purple bg, white symbol
-  'matic': ['#6F41D8', '#FFFFFF'], // Polygon: purple bg, white symbol
-  'sol': ['#66F9A1', '#FFFFFF'], // Solana: green bg, white symbol
-  'base': ['#0052FF', '#FFFFFF'], // Base: blue bg, white symbol
-  'xtz': ['#A6E000', '#FFFFFF'], // Tezos: lime green bg, white symbol
-};
-
 // Static helper functions - moved outside component
 const getLuminance = (hex: string) => {
   const rgb = hex.match(/^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i);
@@ -119,9 +166,9 @@ const getContrast = (color1: string, color2: string) => {
   return (lighter + 0.05) / (darker + 0.05);
 };
 
-const getBestContrastColor = (iconKey: string | null, defaultColor: string) => {
-  if (!iconKey || !LOGO_COLORS[iconKey]) return defaultColor;
-  const colors = LOGO_COLORS[iconKey];
+// Chain logos are white on the brand color; labels use whichever of the two reads better on the background
+const getLabelColor = (brandColor: string) => {
+  const colors = [brandColor, '#FFFFFF'];
   const contrasts = colors.map(color => getContrast(color, BG_COLOR));
   const maxContrastIndex = contrasts.indexOf(Math.max(...contrasts));
   return colors[maxContrastIndex];
@@ -138,22 +185,6 @@ const lightenColor = (hex: string, percent: number) => {
   return `#${[newR, newG, newB].map(x => x.toString(16).padStart(2, '0')).join('')}`;
 };
 
-// Static chains configuration
-const CHAINS = [
-  { name: 'Bitcoin', ms: 600000, color: getBestContrastColor('btc', '#ff8c00'), icon: 'btc', displayTime: '10mins', gradientColor: '#F7931A' },
-  { name: 'Ethereum', ms: 12000, color: getBestContrastColor('eth', '#ffd700'), icon: 'eth', displayTime: null, gradientColor: '#627EEA' },
-  { name: 'Polygon', ms: 2000, color: getBestContrastColor('matic', '#7B3FE4'), icon: 'matic', displayTime: null, gradientColor: '#6F41D8' },
-  { name: 'ETH L2s', ms: 1000, color: getBestContrastColor('eth', '#87ceeb'), icon: 'eth', displayTime: null, gradientColor: '#627EEA' },
-  { name: 'Solana', ms: 400, color: getBestContrastColor('sol', '#DC1FFF'), icon: 'sol', displayTime: null, gradientColor: '#66F9A1' },
-  { name: 'Base', ms: 200, color: getBestContrastColor('base', '#0052FF'), icon: 'base', displayTime: null, gradientColor: '#0052FF' },
-  { name: 'Etherlink', ms: 50, color: getBestContrastColor('xtz', '#38FF9C'), icon: 'etherlink', displayTime: null, gradientColor: '#A6E000' },
-];
-
-const CHAIN_POSITIONS = CHAINS.map((chain, index) => ({
-  ...chain,
-  position: (index / (CHAINS.length - 1)) * 100
-}));
-
 const CHART_START_OFFSET = 2.5;
 const CHART_END_OFFSET = 5;
 const CHART_WIDTH = 100 - CHART_START_OFFSET - CHART_END_OFFSET;
@@ -162,46 +193,22 @@ const getGradientPosition = (blockchainPosition: number) => {
   return CHART_START_OFFSET + (blockchainPosition / 100) * CHART_WIDTH;
 };
 
-const GRADIENT_STOPS = CHAINS.map((chain, index) => {
-  const blockchainPosition = (index / (CHAINS.length - 1)) * 100;
-  const actualPosition = getGradientPosition(blockchainPosition);
-  return `${chain.gradientColor} ${actualPosition}%`;
-}).join(', ');
-
-const GRADIENT_STRING = `${CHAINS[0].gradientColor} 0%, ${GRADIENT_STOPS}, ${CHAINS[CHAINS.length - 1].gradientColor} 100%`;
-
-const BRIGHTER_GRADIENT_STOPS = CHAINS.map((chain, index) => {
-  const blockchainPosition = (index / (CHAINS.length - 1)) * 100;
-  const actualPosition = getGradientPosition(blockchainPosition);
-  const lighterColor = lightenColor(chain.gradientColor, 0.2);
-  return `${lighterColor} ${actualPosition}%`;
-}).join(', ');
-
-const BRIGHTER_GRADIENT_STRING = `${lightenColor(CHAINS[0].gradientColor, 0.2)} 0%, ${BRIGHTER_GRADIENT_STOPS}, ${lightenColor(CHAINS[CHAINS.length - 1].gradientColor, 0.2)} 100%`;
-
-// Function to calculate position based on ms - only this depends on user input
-const getSpeedPosition = (ms: number): number => {
-  const clampedMs = Math.max(50, Math.min(600000, ms));
-  
-  for (let i = 0; i < BLOCKCHAIN_THRESHOLDS.length - 1; i++) {
-    const lower = BLOCKCHAIN_THRESHOLDS[i + 1];
-    const upper = BLOCKCHAIN_THRESHOLDS[i];
-    
-    if (clampedMs >= lower.ms && clampedMs <= upper.ms) {
-      const logLower = Math.log10(lower.ms);
-      const logUpper = Math.log10(upper.ms);
-      const logValue = Math.log10(clampedMs);
-      const segmentNormalized = (logValue - logLower) / (logUpper - logLower);
-      const positionRange = upper.position - lower.position;
-      return lower.position + (segmentNormalized * positionRange);
-    }
-  }
-  
-  if (clampedMs <= 20) return 100;
-  if (clampedMs >= 600000) return 0;
-  return 0;
+// Rank bar gradient through each chain's color, slowest to fastest
+const getGradientStops = (chains: Chain[], lighten = 0): GradientStop[] => {
+  const positions = getChainPositions(chains);
+  const getColor = (chain: Chain) => (lighten ? lightenColor(chain.color, lighten) : chain.color);
+  return [
+    { color: getColor(positions[0]), offset: 0 },
+    ...positions.map((chain) => ({ color: getColor(chain), offset: getGradientPosition(chain.position) })),
+    { color: getColor(positions[positions.length - 1]), offset: 100 },
+  ];
 };
 
+const getGradientString = (chains: Chain[], lighten = 0) =>
+  getGradientStops(chains, lighten)
+    .map((stop) => `${stop.color} ${stop.offset}%`)
+    .join(', ');
+
 // Define types for React state and refs
 type Results = {
   score: string;
@@ -211,7 +218,14 @@ type Results = {
   speedComparison: string; // For "You were as fast as" display (based on pure speed)
   time: string;
   msPerLetter: string;
-  comparison: string;
+  letters: number; // letters the run counted, for the per-chain breakdown
+  durationMs: number;
+  comparison: string; // ms/letter against the pacer chain's block time, negative when faster
+  pacerChain: string; // key of the chain the pacer raced at
+  beatPacer: boolean; // typed faster than one letter per pacer block
+  wpm: string; // 5 letters = 1 word, correct letters only
+  rawWpm: string; // every typed letter, errors included
+  consistency: string;
 };
 
 type GameState = {
@@ -224,8 +238,24 @@ type GameState = {
   testFinished: boolean;
   errorPositions: Set<number>; // Track positions where errors occurred
   correctedErrors: Set<number>; // Track positions where errors were corrected
+  overflow: Map<number, HTMLSpanElement[]>; // Extra letters typed past a word's end, by its trailing space index
+  skipOrigins: Map<number, number>; // Next word start -> where a space skipped the rest of a word
+  extraLetters: number; // Extra letters typed, each an error until deleted
+  deletedExtraLetters: number;
+  keystrokes: KeystrokeEvent[]; // Every keypress, replayed by the server to verify the result
+  prompt: string; // Text issued by /api/start-run for this run
+  pendingWords: string[]; // Prompt words not rendered yet (timed modes stream them in)
+  ghostTimeline: { timestamp: number; index: number }[]; // Personal-best caret positions over time
+  ghostReachTimes: Map<number, number>; // Letter index -> ms when the ghost first reached it
   runId: string | null;
   runToken: string | null;
+  runModifiers: PromptModifiers; // Modifiers the run was issued with, submitted with the result
+  runLanguage: Language; // Word list language the run was issued with, submitted with the result
+  runWordList: WordList; // Common words or web3 vocabulary, submitted with the result
+  runDevice: Device; // Desktop or mobile bucket the run was issued for, submitted with the result
+  runPacerChain: string; // Chain the pacer raced at, stored with the run
+  runDailyDay: string | null; // UTC day of the daily challenge run, claimed on its first keystroke
+  codeIndents: number[] | null; // Display indentation of each prompt line in code mode
 };
 
 // Wavy Text Component
@@ -293,16 +323,20 @@ const WavyTextComponent = ({
   );
 };
 
-// Pacer Timer Component - counts down from totalLetters * 200ms to 0
+// Pacer Timer Component - counts down from totalLetters * speedMs (word modes) or the clock (time modes) to 0
 interface PacerTimerProps {
   totalLetters: number;
   testActive: boolean;
   speedMs: number;
+  gameMode: GameMode;
+  chainName: string;
+  color: string; // tint of the countdown, the chain's brand color
 }
 
-const PacerTimer = ({ totalLetters, testActive, speedMs }: PacerTimerProps) => {
+const PacerTimer = ({ totalLetters, testActive, speedMs, gameMode, chainName, color }: PacerTimerProps) => {
   // Total time in seconds
-  const totalTimeMs = totalLetters * speedMs;
+  const totalTimeMs =
+    gameMode.kind === "time" ? gameMode.seconds * 1000 : totalLetters * speedMs;
   const totalTimeSec = totalTimeMs / 1000;
   
   // Motion value for countdown
@@ -332,12 +366,15 @@ const PacerTimer = ({ totalLetters, testActive, speedMs }: PacerTimerProps) => {
   return (
     <div className="absolute bottom-[-50px] left-1/2 transform -translate-x-1/2 z-0 text-center w-full">
       <motion.h1 
-        className="text-dark-highlight font-mono mb-0"
-        style={{ fontVariantNumeric: 'tabular-nums', fontSize: '2.5rem', fontWeight: 'bold' }}
+        className="font-mono mb-0"
+        style={{ fontVariantNumeric: 'tabular-nums', fontSize: '2.5rem', fontWeight: 'bold', color }}
       >
         <motion.span>{displayValue}</motion.span>
         <span className="ml-2" style={{ fontSize: '1.25rem' }}>s</span>
       </motion.h1>
+      <div className="text-sm font-mono lowercase tracking-wider text-dark-dim">
+        vs {chainName} ({speedMs}ms blocks)
+      </div>
     </div>
   );
 };
@@ -348,8 +385,46 @@ export default function Home() {
   const [testStarted, setTestStarted] = useState(false);
   const [testFinished, setTestFinished] = useState(false);
   const [results, setResults] = useState<Results>(DEFAULT_RESULTS);
-  const [gameMode, setGameMode] = useState<GameMode>(15);
+  const [speedTimeline, setSpeedTimeline] = useState<SpeedTimeline | null>(null); // per-word speed chart on the results screen
+  const [vocabulary, setVocabulary] = useState<{ run: string[]; today: string[] } | null>(null); // web3 words typed, with definitions
+  const [keyStats, setKeyStats] = useState<{ run: KeyStats; history: KeyStats } | null>(null); // per-key heatmap on the results screen
+  const [raceTimeline, setRaceTimeline] = useState<{ timestamp: number; index: number }[] | null>(null); // player's lane of the chain race replay
+  const [showRaceReplay, setShowRaceReplay] = useState(false);
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE);
   const [textFocused, setTextFocused] = useState(false);
+  const [ghostEnabled, setGhostEnabled] = useState(false);
+  const [ghostActive, setGhostActive] = useState(false); // a personal best was loaded for this run
+  const [modifiers, setModifiers] = useState<PromptModifiers>(NO_MODIFIERS);
+  const [language, setLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const [showLanguageMenu, setShowLanguageMenu] = useState(false);
+  const [wordList, setWordList] = useState<WordList>(DEFAULT_WORD_LIST);
+  const [device, setDevice] = useState<Device>(DEFAULT_DEVICE); // touch keyboards get the mobile layout and bucket
+  const [chains, setChains] = useState<Chain[]>(DEFAULT_CHAINS); // chain registry, loaded from the database
+  const [pacerChain, setPacerChain] = useState(DEFAULT_PACER_CHAIN);
+  // Pacer of the current run; the menu can change while a run is on screen
+  const [runPacerChain, setRunPacerChain] = useState(DEFAULT_PACER_CHAIN);
+  const [showPacerMenu, setShowPacerMenu] = useState(false);
+  const [dailyEnabled, setDailyEnabled] = useState(false);
+  const [dailyNotice, setDailyNotice] = useState<string | null>(null); // why today's run is unranked
+  const [promptSeed, setPromptSeed] = useState<string | null>(null); // seed of the current prompt, for share links
+  const [seedLinkCopied, setSeedLinkCopied] = useState(false);
+  const [runUnranked, setRunUnranked] = useState(false); // prompt known in advance: a ?seed= link or a ghost race
+  const [explorerRunId, setExplorerRunId] = useState<string | null>(null); // validated run, viewable on /run/[id]
+  const [customText, setCustomText] = useState<string | null>(null); // unranked practice text, null for normal runs
+  const [showCustomPanel, setShowCustomPanel] = useState(false);
+
+  // Custom text runs play like a word run over the pasted text
+  const runMode = useMemo<GameMode>(
+    () =>
+      customText !== null
+        ? { kind: "words", count: customText.split(/\s+/).length }
+        : gameMode,
+    [customText, gameMode]
+  );
+
+  const gradientString = useMemo(() => getGradientString(chains), [chains]);
+  const brighterGradientString = useMemo(() => getGradientString(chains, 0.2), [chains]);
+  const gradientStops = useMemo(() => getGradientStops(chains), [chains]);
 
   // NEW: State for overlay and player name
   // Initialize to safe defaults to avoid hydration mismatches
@@ -370,17 +445,26 @@ export default function Home() {
   const userMenuRef = useRef<HTMLDivElement>(null);
   // Twitter auth state - just track if user has Twitter avatar (derived from localStorage)
   const [isTwitterAuth, setIsTwitterAuth] = useState(false);
-  const [hoveredMode, setHoveredMode] = useState<number | null>(null);
+  const [hoveredMode, setHoveredMode] = useState<string | null>(null);
   const [animatedNumber, setAnimatedNumber] = useState<number | null>(null);
   const animationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [wavyReplay, setWavyReplay] = useState(false);
   const [totalLetters, setTotalLetters] = useState(0);
   const [pacerResetKey, setPacerResetKey] = useState(0);
   const [showHowToPlay, setShowHowToPlay] = useState(false);
+  const [showRoomPanel, setShowRoomPanel] = useState(false);
+  const [roomInviteCode, setRoomInviteCode] = useState("");
+  const [roomRaceRun, setRoomRaceRun] = useState(false); // current run is a race room run
+  const [roomCountdown, setRoomCountdown] = useState<number | null>(null);
 
   const appBodyRef = useRef<HTMLDivElement>(null);
+  const typingInputRef = useRef<HTMLInputElement>(null); // receives IME composition and dead-key input
+  const keyTypedRef = useRef(false); // the last keydown already typed its character
   const wordsRef = useRef<HTMLDivElement>(null);
   const cursorRef = useRef<HTMLDivElement>(null);
+  const ghostCursorRef = useRef<HTMLDivElement>(null);
+  const pacerCursorRef = useRef<HTMLDivElement>(null);
+  const ghostDeltaRef = useRef<HTMLDivElement>(null);
   const confettiRef = useRef<ConfettiRef>(null);
   const resultsScreenRef = useRef<HTMLDivElement>(null);
 
@@ -394,61 +478,126 @@ export default function Home() {
     testFinished: false,
     errorPositions: new Set(),
     correctedErrors: new Set(),
+    overflow: new Map(),
+    skipOrigins: new Map(),
+    extraLetters: 0,
+    deletedExtraLetters: 0,
+    keystrokes: [],
+    prompt: "",
+    pendingWords: [],
+    ghostTimeline: [],
+    ghostReachTimes: new Map(),
     runId: null,
     runToken: null,
+    runModifiers: NO_MODIFIERS,
+    runLanguage: DEFAULT_LANGUAGE,
+    runWordList: DEFAULT_WORD_LIST,
+    runDevice: DEFAULT_DEVICE,
+    runPacerChain: DEFAULT_PACER_CHAIN,
+    runDailyDay: null,
+    codeIndents: null,
   });
 
+  // Incremented on every populateWords call so stale start-run responses are ignored
+  const runRequestRef = useRef(0);
+  // Seed from a ?seed= link, consumed by the first game on the linked mode
+  const pendingSeedRef = useRef<{ seed: string; mode: GameMode } | null>(null);
+
+  const raceRoom = useRaceRoom(playerName);
+  const {
+    room: roomSnapshot,
+    membership: roomMembership,
+    getServerNow: getRoomServerNow,
+    reportProgress: reportRoomProgress,
+  } = raceRoom;
+  // Set when the room starts a race, consumed by the next populateWords call
+  const roomRaceRef = useRef<RoomMembership | null>(null);
+  // Server time the room race starts at; keys are blocked until then
+  const roomStartsAtRef = useRef<number | null>(null);
+  const lastRoomRaceRef = useRef(0);
+  // Latest room snapshot, read when joining without re-running on every room update
+  const roomSnapshotRef = useRef(roomSnapshot);
+
   const tabPressedRef = useRef(false);
   const tabTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const moveCursor = useCallback((index: number) => {
-    const cursor = cursorRef.current;
+  const moveCursor = useCallback((index: number, caret: HTMLDivElement | null = cursorRef.current) => {
+    const cursor = caret;
     const container = wordsRef.current;
     const letters = stateRef.current.letterElements;
     if (!cursor || !container || letters.length === 0) return;
 
+    // The player's caret sits after any extra letters typed past the end of the word
+    const extras = cursor === cursorRef.current ? stateRef.current.overflow.get(index) : undefined;
+    const lastExtra = extras?.[extras.length - 1];
     const target =
-      index < letters.length ? letters[index] : letters[letters.length - 1];
+      lastExtra ?? (index < letters.length ? letters[index] : letters[letters.length - 1]);
     if (!target) return;
 
+    // Timed prompts are taller than the visible lines, keep the player's caret on the second line
+    if (cursor === cursorRef.current && container.scrollHeight > container.clientHeight) {
+      container.scrollTop = Math.max(0, target.offsetTop - target.offsetHeight);
+    }
+
     const rect = target.getBoundingClientRect();
     const containerRect = container.getBoundingClientRect();
     const left =
-      index < letters.length
+      index < letters.length && !lastExtra
         ? rect.left - containerRect.left
         : rect.right - containerRect.left;
 
+    const top = rect.top - containerRect.top;
     cursor.style.left = `${left}px`;
-    cursor.style.top = `${rect.top - containerRect.top}px`;
+    cursor.style.top = `${top}px`;
+    // The ghost can sit on a line that is scrolled out of view
+    cursor.style.visibility =
+      top < 0 || top >= container.clientHeight ? "hidden" : "";
   }, []);
 
-  const populateWords = useCallback(() => {
+  const appendWordBatch = useCallback(() => {
     const container = wordsRef.current;
     if (!container) return;
 
-    container.innerHTML = "";
-    const sentence = generateSentence(gameMode);
-    const words = sentence.split(" ");
-    const letters: HTMLSpanElement[] = [];
+    const words = stateRef.current.pendingWords.splice(0, WORD_RENDER_BATCH);
+    const isLastBatch = stateRef.current.pendingWords.length === 0;
+    const letters = stateRef.current.letterElements;
+    // Code and phone screens are set smaller so most lines fit without wrapping
+    const indents = stateRef.current.codeIndents;
+    const fontSize = indents || stateRef.current.runDevice === "mobile" ? "24px" : "32px";
 
     words.forEach((word, wordIndex) => {
-      const wordDiv = document.createElement("div");
+      let wordDiv = document.createElement("div");
       wordDiv.className = "mx-2 flex whitespace-pre"; // Tailwind classes
 
       word.split("").forEach((char) => {
         const letterSpan = document.createElement("span");
-        letterSpan.style.fontSize = "32px";
+        letterSpan.style.fontSize = fontSize;
         letterSpan.style.lineHeight = "1.5em";
         letterSpan.style.fontFamily = "monospace";
         // Don't set inline color - let it inherit from parent, then Tailwind classes can override
-        letterSpan.textContent = char;
+        // Line breaks (custom text) show an enter glyph and wrap the rest onto a new line
+        letterSpan.textContent = char === "\n" ? "↵" : char;
         wordDiv.appendChild(letterSpan);
         letters.push(letterSpan);
+
+        if (char === "\n") {
+          container.appendChild(wordDiv);
+          const lineBreak = document.createElement("div");
+          lineBreak.className = "basis-full h-0";
+          container.appendChild(lineBreak);
+          wordDiv = document.createElement("div");
+          wordDiv.className = "mx-2 flex whitespace-pre";
+          if (indents) {
+            const lineIndex = stateRef.current.prompt.slice(0, letters.length).split("\n").length - 1;
+            wordDiv.style.fontSize = fontSize;
+            wordDiv.style.paddingLeft = `${indents[lineIndex] ?? 0}ch`;
+          }
+        }
       });
 
-      if (wordIndex < words.length - 1) {
+      if (!isLastBatch || wordIndex < words.length - 1) {
         const spaceSpan = document.createElement("span");
-        spaceSpan.style.fontSize = "32px";
+        spaceSpan.style.fontSize = fontSize;
         spaceSpan.style.lineHeight = "1.5em";
         spaceSpan.style.fontFamily = "monospace";
         // Don't set inline color - let it inherit from parent, then Tailwind classes can override
@@ -459,12 +608,151 @@ export default function Home() {
 
       container.appendChild(wordDiv);
     });
+  }, []);
+
+  const renderWords = useCallback((sentence: string) => {
+    const container = wordsRef.current;
+    if (!container) return;
+
+    container.innerHTML = "";
+    container.scrollTop = 0;
+    stateRef.current.letterElements = [];
+    stateRef.current.pendingWords = sentence.split(" ");
+    stateRef.current.prompt = sentence;
+    stateRef.current.codeIndents = getCodeIndents(sentence);
+    appendWordBatch();
+
+    // The whole prompt counts, including words that haven't streamed in yet
+    stateRef.current.totalLetters = sentence.length;
+    setTotalLetters(sentence.length);
+    stateRef.current.currentIndex = 0;
 
-    stateRef.current.letterElements = letters;
-    stateRef.current.totalLetters = letters.length;
-    setTotalLetters(letters.length);
+    requestAnimationFrame(() => {
+      moveCursor(0);
+      moveCursor(0, ghostCursorRef.current);
+      moveCursor(0, pacerCursorRef.current);
+    });
+  }, [appendWordBatch, moveCursor]);
+
+  const populateWords = useCallback(() => {
+    const container = wordsRef.current;
+    if (!container) return;
+
+    container.innerHTML = "";
+    stateRef.current.letterElements = [];
+    stateRef.current.totalLetters = 0;
     stateRef.current.currentIndex = 0;
-  }, [gameMode]);
+    stateRef.current.prompt = "";
+    stateRef.current.pendingWords = [];
+    stateRef.current.ghostTimeline = [];
+    stateRef.current.ghostReachTimes = new Map();
+    setTotalLetters(0);
+    setGhostActive(false);
+
+    const roomRace = roomRaceRef.current;
+    roomRaceRef.current = null;
+    setRoomRaceRun(roomRace !== null);
+
+    // Used for the results screen until the server says which word list and modifiers the run got;
+    // custom text keeps the stop on error and confidence rules
+    stateRef.current.runLanguage = roomRace || dailyEnabled ? DEFAULT_LANGUAGE : language;
+    stateRef.current.runWordList = roomRace || dailyEnabled ? DEFAULT_WORD_LIST : wordList;
+    stateRef.current.runModifiers = roomRace || dailyEnabled ? NO_MODIFIERS : modifiers;
+    stateRef.current.runDevice = device;
+    stateRef.current.runPacerChain = pacerChain;
+    setRunPacerChain(pacerChain);
+    stateRef.current.runDailyDay = null;
+
+    // Custom text is unranked practice: rendered locally and never bound to a run session
+    if (customText !== null && !roomRace) {
+      ++runRequestRef.current;
+      setPromptSeed(null);
+      renderWords(customText);
+      return;
+    }
+
+    const pendingSeed = pendingSeedRef.current;
+    const seed =
+      !roomRace && !dailyEnabled && pendingSeed && isSameGameMode(pendingSeed.mode, gameMode)
+        ? pendingSeed.seed
+        : undefined;
+    if (seed) pendingSeedRef.current = null;
+    setPromptSeed(null);
+    setSeedLinkCopied(false);
+    setRunUnranked(false);
+
+    // The prompt is issued by the server and bound to the run session
+    const requestId = ++runRequestRef.current;
+    fetch("/api/start-run", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        player_name: playerName,
+        game_mode: gameMode,
+        ghost: ghostEnabled && !roomRace && !dailyEnabled,
+        room: roomRace ?? undefined,
+        daily: dailyEnabled && !roomRace,
+        seed,
+        modifiers,
+        language,
+        word_list: wordList,
+        pacer_chain: pacerChain,
+      }),
+    })
+      .then((response) => response.json())
+      .then((result) => {
+        // A newer game was started while this request was in flight
+        if (requestId !== runRequestRef.current) return;
+        if (result.success && result.run_id && result.token && result.prompt) {
+          stateRef.current.runId = result.run_id;
+          stateRef.current.runToken = result.token;
+          stateRef.current.runModifiers = result.modifiers ?? NO_MODIFIERS;
+          stateRef.current.runLanguage = result.language ?? DEFAULT_LANGUAGE;
+          stateRef.current.runWordList = result.word_list ?? DEFAULT_WORD_LIST;
+          stateRef.current.runDevice = result.device ?? DEFAULT_DEVICE;
+          stateRef.current.runPacerChain = result.pacer_chain ?? pacerChain;
+          setRunPacerChain(stateRef.current.runPacerChain);
+          stateRef.current.runDailyDay = result.daily_day ?? null;
+          if (result.ghost_keystrokes) {
+            const timeline = getCaretTimeline(
+              result.ghost_keystrokes,
+              result.prompt,
+              stateRef.current.runModifiers
+            );
+            const reachTimes = new Map<number, number>();
+            timeline.forEach(({ timestamp, index }) => {
+              if (!reachTimes.has(index)) reachTimes.set(index, timestamp);
+            });
+            stateRef.current.ghostTimeline = timeline;
+            stateRef.current.ghostReachTimes = reachTimes;
+            setGhostActive(true);
+          }
+          setDailyNotice(null);
+          setPromptSeed(result.seed ?? null);
+          setRunUnranked(result.ranked === false);
+          renderWords(result.prompt);
+        } else if (dailyEnabled && !roomRace) {
+          // Already played today (or the run couldn't be issued): practice the same prompt unranked
+          setDailyNotice(result.error || "Failed to start the daily challenge");
+          renderWords(generateDailyPrompt(getDailyDay()));
+        } else {
+          console.error("Failed to start game run:", result.error);
+          // Fall back to a local prompt so the game stays playable (result won't be saved)
+          const fallbackSeed = seed ?? createSeed();
+          setPromptSeed(fallbackSeed);
+          renderWords(generatePrompt(gameMode, fallbackSeed, modifiers, language, wordList));
+        }
+      })
+      .catch((error) => {
+        if (requestId !== runRequestRef.current) return;
+        console.error("Error starting game run:", error);
+        const fallbackSeed = seed ?? createSeed();
+        setPromptSeed(fallbackSeed);
+        renderWords(generatePrompt(gameMode, fallbackSeed, modifiers, language, wordList));
+      });
+  }, [gameMode, modifiers, language, wordList, device, pacerChain, ghostEnabled, dailyEnabled, customText, playerName, renderWords]);
 
   const initGame = useCallback(() => {
     stateRef.current.testActive = false;
@@ -474,20 +762,40 @@ export default function Home() {
     stateRef.current.currentIndex = 0;
     stateRef.current.errorPositions.clear();
     stateRef.current.correctedErrors.clear();
+    stateRef.current.overflow.clear();
+    stateRef.current.skipOrigins.clear();
+    stateRef.current.extraLetters = 0;
+    stateRef.current.deletedExtraLetters = 0;
+    stateRef.current.keystrokes = [];
     stateRef.current.runId = null;
     stateRef.current.runToken = null;
     setResults({ ...DEFAULT_RESULTS });
+    setSpeedTimeline(null);
+    setVocabulary(null);
+    setKeyStats(null);
+    setRaceTimeline(null);
+    setShowRaceReplay(false);
+    setExplorerRunId(null);
     setTestStarted(false);
     setTestFinished(false);
     setTextFocused(false);
     setPacerResetKey((prev) => prev + 1); // Force pacer squares to reset
+    if (ghostDeltaRef.current) ghostDeltaRef.current.textContent = "";
     populateWords();
 
     requestAnimationFrame(() => moveCursor(0));
   }, [moveCursor, populateWords, gameMode]);
 
+  // Typing goes through the hidden input so composition works; the app body takes focus while it's hidden
+  const focusTyping = useCallback(() => {
+    typingInputRef.current?.focus({ preventScroll: true });
+    if (document.activeElement !== typingInputRef.current) appBodyRef.current?.focus();
+  }, []);
+
   const startTest = useCallback(() => {
     if (stateRef.current.testActive) return;
+    // Prompt is still being issued by the server
+    if (stateRef.current.letterElements.length === 0) return;
     // Blur any focused buttons to prevent spacebar from triggering them
     if (document.activeElement instanceof HTMLButtonElement) {
       document.activeElement.blur();
@@ -496,37 +804,28 @@ export default function Home() {
     stateRef.current.startTime = performance.now();
     setTestStarted(true);
     setTestFinished(false);
-    
-    // Fetch session token in the background (non-blocking)
-    fetch("/api/start-run", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        player_name: playerName,
-        game_mode: gameMode,
-      }),
-    })
-      .then((response) => response.json())
-      .then((result) => {
-        if (result.success && result.run_id && result.token) {
-          stateRef.current.runId = result.run_id;
-          stateRef.current.runToken = result.token;
-        } else {
-          console.error("Failed to start game run:", result.error);
-          // If API fails, reset the game state
-          stateRef.current.testActive = false;
-          setTestStarted(false);
-        }
+
+    // Typing the first key of a daily run uses up the day's ranked attempt
+    if (stateRef.current.runDailyDay && stateRef.current.runId && stateRef.current.runToken) {
+      const runId = stateRef.current.runId;
+      fetch("/api/claim-daily", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ run_id: runId, token: stateRef.current.runToken }),
       })
-      .catch((error) => {
-        console.error("Error starting game run:", error);
-        // If API fails, reset the game state
-        stateRef.current.testActive = false;
-        setTestStarted(false);
-      });
-  }, [gameMode, playerName]);
+        .then((response) => response.json())
+        .then((result) => {
+          if (!result.success && stateRef.current.runId === runId) {
+            setDailyNotice(result.error || "Failed to claim the daily challenge");
+          }
+        })
+        .catch((error) => {
+          console.error("Error claiming daily challenge:", error);
+        });
+    }
+  }, []);
 
   const endGame = useCallback(() => {
     if (!stateRef.current.testActive) return;
@@ -535,97 +834,58 @@ export default function Home() {
     setTestFinished(true);
 
     const endTime = performance.now();
-    const lettersCount = stateRef.current.totalLetters || 1;
-    const durationMs = endTime - stateRef.current.startTime;
+    // Timed runs count the letters typed before the clock ran out and last the full clock,
+    // unless the whole prompt was finished early
+    const isTimed = runMode.kind === "time";
+    const finishedPrompt =
+      stateRef.current.currentIndex >= stateRef.current.totalLetters;
+    const lettersCount =
+      (isTimed ? stateRef.current.currentIndex : stateRef.current.totalLetters) || 1;
+    const durationMs =
+      runMode.kind === "time" && !finishedPrompt
+        ? runMode.seconds * 1000
+        : endTime - stateRef.current.startTime;
     const durationSec = Math.max(durationMs / 1000, 0.001);
     const lettersPerSecond = lettersCount / durationSec;
     
     // Calculate corrected vs uncorrected errors
-    const totalErrors = stateRef.current.errorPositions.size;
-    const correctedErrors = stateRef.current.correctedErrors.size;
+    // Extra letters typed past a word's end are errors too, deleting them is a correction
+    const totalErrors =
+      stateRef.current.errorPositions.size + stateRef.current.extraLetters;
+    const correctedErrors =
+      stateRef.current.correctedErrors.size + stateRef.current.deletedExtraLetters;
     const uncorrectedErrors = totalErrors - correctedErrors;
     
     // Accuracy based on uncorrected errors only (errors that remain at the end)
-    const accuracy =
-      ((lettersCount - uncorrectedErrors) / lettersCount) * 100;
+    const accuracy = Math.max(
+      ((lettersCount - uncorrectedErrors) / lettersCount) * 100,
+      0
+    );
     
-    // Correction bonus: reward players who correct their mistakes
-    // Bonus scales with correction rate, but also considers total error rate
-    // Players with fewer errors who correct them get more bonus
-    // Formula: correctionRate * (1 - errorRate) * 0.15
-    // This gives up to 15% bonus, but only if you have low error rate AND correct them
-    const correctionRate = totalErrors > 0 ? correctedErrors / totalErrors : 0;
-    const errorRate = lettersCount > 0 ? totalErrors / lettersCount : 0;
-    const correctionBonus = correctionRate * (1 - Math.min(errorRate * 10, 0.5)) * 0.15; // Up to 15% bonus, scales down with high error rates
-    
-    // Score factors in accuracy more heavily by squaring the accuracy percentage
-    // This ensures accuracy is weighted more than just a simple multiplication
-    const accuracyDecimal = accuracy / 100;
-    let baseScore = lettersPerSecond * (accuracyDecimal * accuracyDecimal);
-    
-    // Apply correction bonus
-    const scoreWithCorrection = baseScore * (1 + correctionBonus);
-    
-    // Game mode normalization: 30-word mode is harder, so apply a multiplier
-    // Calibrated based on best player data:
-    // - 15-word: 14.07 LPS, 100% acc → Base score 14.07
-    // - 30-word: 11.79 LPS, 98.8% acc → Base score 11.50
-    // To normalize: 11.50 × multiplier should ≈ 14.07
-    // Multiplier = 14.07 / 11.50 = 1.223 (22.3% bonus)
-    // Using 1.22x for cleaner number
-    const gameModeMultiplier = gameMode === 30 ? 1.22 : 1.0;
-    const normalizedScore = scoreWithCorrection * gameModeMultiplier;
-    
-    // Final score is the normalized score (no scaling factor)
-    // Best player data:
-    // - 15-word: 14.07 (100% acc) → reaches Grandmaster (≥14)
-    // - 30-word: 11.50 × 1.22 = 14.03 (98.8% acc, normalized) → reaches Grandmaster (≥14)
-    // Score directly reflects weighted LPS, making it more intuitive
-    const finalScore = normalizedScore;
+    // Same formulas the server validates the run with, so the shown score is the stored one
+    const finalScore = calculateScore(
+      lettersPerSecond,
+      accuracy,
+      runMode,
+      totalErrors,
+      correctedErrors,
+      lettersCount,
+      stateRef.current.runModifiers
+    );
+    const rank = calculateRank(finalScore, accuracy);
+
     const msPerLetter = durationMs / lettersCount;
-    const comparisonMs = msPerLetter - SUB_BLOCK_SPEED_MS;
+    const pacerMs = getChain(chains, stateRef.current.runPacerChain).ms;
+    const comparisonMs = msPerLetter - pacerMs;
 
     // "You were as fast as" is based purely on speed (msPerLetter) - not accuracy-adjusted
-    // Categories: Instant confirmations (50ms), Base (200ms), Solana (400ms), ETH L2s (1000ms), Polygon (2000ms), Ethereum Mainnet (12000ms), Bitcoin (600000ms)
-    let speedComparison = "Bitcoin";
-    if (msPerLetter <= 50) speedComparison = "Instant confirmations";
-    else if (msPerLetter <= 200) speedComparison = "Base";
-    else if (msPerLetter <= 400) speedComparison = "Solana";
-    else if (msPerLetter <= 1000) speedComparison = "ETH L2s";
-    else if (msPerLetter <= 2000) speedComparison = "Polygon";
-    else if (msPerLetter <= 12000) speedComparison = "Ethereum Mainnet";
-    else speedComparison = "Bitcoin";
-    
-    // Rank is based on score (6 levels) with minimum accuracy threshold
-    // Calibrated using best player performance as benchmark:
-    // - Best player: 14.07 score (15-word, 100% acc) and 14.03 score (30-word, 98.8% acc after normalization)
-    // - Grandmaster threshold set at 14.0 to make best player achieve it
-    // - Other thresholds set proportionally below
-    let rank = "Typing Rookie 🥉";
-    
-    // Minimum accuracy thresholds for ranks (prevents spam-typing)
-    // Based on best player achieving 98.8% in 30-word mode
-    const MIN_ACCURACY_GRANDMASTER = 98;
-    const MIN_ACCURACY_TURBO = 95;
-    const MIN_ACCURACY_CHAIN = 90;
-    const MIN_ACCURACY_SPEED = 85;
-    const MIN_ACCURACY_LATENCY = 80;
-    
-    // Rank thresholds matching HowToPlayContent.tsx display
-    // Grandmaster: ≥14, Turbo Typelord: ≥11, Chain Slayer: ≥7, Speed Operator: ≥4, Latency Warrior: ≥1, Typing Rookie: <1
-    if (finalScore >= 14 && accuracy >= MIN_ACCURACY_GRANDMASTER) {
-      rank = "Grandmaster of Speed 👑";
-    } else if (finalScore >= 11 && accuracy >= MIN_ACCURACY_TURBO) {
-      rank = "Turbo Typelord 💎";
-    } else if (finalScore >= 7 && accuracy >= MIN_ACCURACY_CHAIN) {
-      rank = "Chain Slayer ⚔️";
-    } else if (finalScore >= 4 && accuracy >= MIN_ACCURACY_SPEED) {
-      rank = "Speed Operator 🥇";
-    } else if (finalScore >= 1 && accuracy >= MIN_ACCURACY_LATENCY) {
-      rank = "Latency Warrior 🥈";
-    } else {
-      rank = "Typing Rookie 🥉";
-    }
+    const speedComparison = getSpeedComparison(chains, msPerLetter).name;
+
+    const speedMetrics = calculateSpeedMetrics(
+      stateRef.current.keystrokes,
+      Math.max(lettersCount - uncorrectedErrors, 0),
+      durationMs
+    );
 
     const resultsData = {
       score: finalScore.toFixed(2),
@@ -635,46 +895,74 @@ export default function Home() {
       speedComparison, // For "You were as fast as" display
       time: `${durationSec.toFixed(2)}s`,
       msPerLetter: msPerLetter.toFixed(0),
+      letters: lettersCount,
+      durationMs,
       comparison: `${comparisonMs > 0 ? "+" : ""}${comparisonMs.toFixed(0)}`,
+      pacerChain: stateRef.current.runPacerChain,
+      beatPacer: msPerLetter < pacerMs,
+      wpm: speedMetrics.wpm.toFixed(1),
+      rawWpm: speedMetrics.raw_wpm.toFixed(1),
+      consistency: `${speedMetrics.consistency.toFixed(1)}%`,
     };
 
     setResults(resultsData);
+    setSpeedTimeline(
+      getSpeedTimeline(stateRef.current.keystrokes, stateRef.current.prompt, durationMs)
+    );
+    setRaceTimeline(
+      getCaretTimeline(stateRef.current.keystrokes, stateRef.current.prompt, stateRef.current.runModifiers)
+    );
+
+    // Per-key stats count every run, practice included, towards the player's history
+    const runKeyStats = calculateKeyStats(stateRef.current.keystrokes, stateRef.current.prompt);
+    setKeyStats({ run: runKeyStats, history: addRunToKeyStats(playerName, runKeyStats) });
+
+    // Custom text runs are practice only and never submitted
+    if (customText !== null) return;
+
+    if (stateRef.current.runWordList === "web3") {
+      const runWords = getTypedVocabulary(stateRef.current.prompt, stateRef.current.currentIndex);
+      setVocabulary({ run: runWords, today: addWordsTypedToday(runWords) });
+    }
 
     if (!stateRef.current.runId || !stateRef.current.runToken) {
       console.error("Missing run session - cannot save game result");
       return;
     }
 
+    const runId = stateRef.current.runId;
     saveGameResult({
-      run_id: stateRef.current.runId,
+      run_id: runId,
       token: stateRef.current.runToken,
       player_name: playerName,
       game_mode: gameMode,
-      lps: parseFloat(lettersPerSecond.toFixed(2)),
-      accuracy: parseFloat(Math.max(accuracy, 0).toFixed(1)),
-      time: parseFloat(durationSec.toFixed(2)),
-      ms_per_letter: parseFloat(msPerLetter.toFixed(0)),
       total_letters: lettersCount,
-      uncorrected_errors: uncorrectedErrors,
-      corrected_errors: correctedErrors,
+      prompt: stateRef.current.prompt,
+      keystrokes: stateRef.current.keystrokes,
+      modifiers: stateRef.current.runModifiers,
+      language: stateRef.current.runLanguage,
+      word_list: stateRef.current.runWordList,
+      device: stateRef.current.runDevice,
       isTwitterUser: isTwitterAuth,
     })
       .then((result) => {
       // Score saved (or not if not a new best)
       // Fetch updated rankings after saving
       fetchRankings();
+      // Only validated runs are kept for the explorer
+      if (result.success && stateRef.current.runId === runId) setExplorerRunId(runId);
       })
       .catch((error) => {
       // Silently fail - don't interrupt user experience
     });
-  }, [playerName, gameMode]);
+  }, [playerName, gameMode, runMode, customText, chains]);
 
   // Fetch rankings for the current game mode
   const fetchRankings = useCallback(async () => {
     setRankingsLoading(true);
     try {
     // Fetch more entries to find current user's position
-    const { data, error } = await getLeaderboard(gameMode, 100); // Get top 100 to find user position
+    const { data, error } = await getLeaderboard(gameMode, 100, modifiers, "score", language, wordList, device); // Get top 100 to find user position
 
       if (error) {
         setRankings([]);
@@ -688,7 +976,7 @@ export default function Home() {
     } finally {
     setRankingsLoading(false);
     }
-  }, [gameMode, playerName]);
+  }, [gameMode, modifiers, language, wordList, device, playerName]);
 
   // Load leaderboard on initial mount (only once)
   useEffect(() => {
@@ -705,11 +993,153 @@ export default function Home() {
     }
   }, [testFinished, fetchRankings]);
 
+  // ?seed=...&mode=... links replay a specific prompt
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const seed = params.get("seed");
+    if (!isValidSeed(seed)) return;
+    const mode = parseGameModeKey(params.get("mode") ?? "") ?? DEFAULT_GAME_MODE;
+    pendingSeedRef.current = { seed, mode };
+    setGameMode(mode);
+    setModifiers(parseModifiersKey(params.get("mods")));
+    const lang = params.get("lang");
+    if (isValidLanguage(lang)) setLanguage(lang);
+    const list = params.get("list");
+    if (isValidWordList(list)) setWordList(list);
+  }, []);
+
+  useEffect(() => {
+    getChains().then(setChains);
+  }, []);
+
+  // Same check the server uses to assign a run's bucket
+  useEffect(() => {
+    setDevice(getDeviceFromUserAgent(navigator.userAgent));
+  }, []);
+
   // Reset game when game mode changes
   useEffect(() => {
     initGame();
   }, [gameMode, initGame]);
 
+  // Timed modes end when the clock runs out
+  useEffect(() => {
+    if (!testStarted || runMode.kind !== "time") return;
+    const timeout = setTimeout(() => endGame(), runMode.seconds * 1000);
+    return () => clearTimeout(timeout);
+  }, [testStarted, runMode, endGame]);
+
+  // Invite links open the race room panel with the code filled in
+  useEffect(() => {
+    const inviteCode = new URLSearchParams(window.location.search).get("room");
+    if (inviteCode) {
+      setRoomInviteCode(inviteCode.toUpperCase());
+      setShowRoomPanel(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    roomSnapshotRef.current = roomSnapshot;
+  }, [roomSnapshot]);
+
+  // Only races started after joining are played
+  useEffect(() => {
+    lastRoomRaceRef.current = roomSnapshotRef.current?.race_number ?? 0;
+  }, [roomMembership]);
+
+  // The host started a race: load the shared prompt and count down to the synchronized start
+  useEffect(() => {
+    if (!roomSnapshot || !roomMembership || roomSnapshot.starts_at === null) return;
+    if (roomSnapshot.race_number === lastRoomRaceRef.current) return;
+    lastRoomRaceRef.current = roomSnapshot.race_number;
+
+    setShowRoomPanel(false);
+    roomRaceRef.current = roomMembership;
+    roomStartsAtRef.current = roomSnapshot.starts_at;
+    setRoomCountdown(Math.ceil((roomSnapshot.starts_at - getRoomServerNow()) / 1000));
+    const sameMode = isSameGameMode(gameMode, roomSnapshot.game_mode);
+    if (sameMode && customText === null) {
+      initGame();
+    } else {
+      // The game mode effect re-inits the game once the room's mode is set and custom text is cleared
+      setGameMode(roomSnapshot.game_mode);
+      setCustomText(null);
+    }
+  }, [roomSnapshot, roomMembership, getRoomServerNow, gameMode, customText, initGame]);
+
+  const roomCountingDown = roomCountdown !== null;
+  useEffect(() => {
+    if (!roomCountingDown) return;
+    const interval = setInterval(() => {
+      const startsAt = roomStartsAtRef.current;
+      if (startsAt === null) {
+        setRoomCountdown(null);
+        return;
+      }
+
+      const remaining = startsAt - getRoomServerNow();
+      if (remaining > 0) {
+        setRoomCountdown(Math.ceil(remaining / 1000));
+        return;
+      }
+
+      // startTest waits for the prompt, so keep trying until it is rendered
+      startTest();
+      if (stateRef.current.testActive) {
+        roomStartsAtRef.current = null;
+        setRoomCountdown(null);
+      }
+    }, 50);
+
+    return () => clearInterval(interval);
+  }, [roomCountingDown, getRoomServerNow, startTest]);
+
+  // Drive the ghost caret through the personal-best caret timeline
+  useEffect(() => {
+    if (!testStarted || testFinished || !ghostActive) return;
+    let frame: number;
+    let step = 0;
+    let ghostIndex = 0;
+
+    const tick = () => {
+      const { ghostTimeline, startTime } = stateRef.current;
+      const elapsed = performance.now() - startTime;
+      while (step < ghostTimeline.length && ghostTimeline[step].timestamp <= elapsed) {
+        ghostIndex = ghostTimeline[step].index;
+        step += 1;
+      }
+      moveCursor(ghostIndex, ghostCursorRef.current);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [testStarted, testFinished, ghostActive, moveCursor]);
+
+  // Drive the pacer caret one letter per block of the pacer chain, underlining each confirmed letter
+  useEffect(() => {
+    if (!testStarted || testFinished) return;
+    const chain = getChain(chains, stateRef.current.runPacerChain);
+    let frame: number;
+    let confirmed = 0;
+
+    const tick = () => {
+      const { letterElements, startTime, totalLetters } = stateRef.current;
+      const elapsed = performance.now() - startTime;
+      const pacerIndex = Math.min(Math.floor(elapsed / chain.ms), totalLetters);
+      // Timed prompts stream in, so letters not rendered yet are confirmed once they appear
+      const rendered = Math.min(pacerIndex, letterElements.length);
+      for (; confirmed < rendered; confirmed++) {
+        letterElements[confirmed].style.boxShadow = `inset 0 -3px 0 ${chain.color}`;
+      }
+      moveCursor(pacerIndex, pacerCursorRef.current);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [testStarted, testFinished, chains, moveCursor]);
+
   // Prevent body scroll when How to Play overlay is open
   useEffect(() => {
     if (showHowToPlay) {
@@ -833,13 +1263,252 @@ export default function Home() {
     }
   }, [showUserMenu]);
 
+  // Move the caret back to target, clearing the letters it passes and the extra letters and skips after it
+  const eraseTo = useCallback((target: number) => {
+    for (let index = target; index <= stateRef.current.currentIndex; index += 1) {
+      const letter = stateRef.current.letterElements[index];
+      if (index < stateRef.current.currentIndex && letter) {
+        // If this position had an error, mark it as corrected
+        // (under stop on error it was already fixed in place, so the error stands)
+        if (stateRef.current.errorPositions.has(index) && !stateRef.current.runModifiers.strict) {
+          stateRef.current.correctedErrors.add(index);
+        }
+        letter.classList.remove(
+          "text-dark-main",
+          "text-dark-error",
+          "underline",
+          "decoration-dark-error"
+        );
+        // Remove inline color to allow parent color to show
+        letter.style.color = "";
+      }
+      if (index === target) continue;
+      const extras = stateRef.current.overflow.get(index) ?? [];
+      extras.forEach((extra) => extra.remove());
+      stateRef.current.deletedExtraLetters += extras.length;
+      stateRef.current.overflow.delete(index);
+      stateRef.current.skipOrigins.delete(index);
+    }
+    stateRef.current.currentIndex = target;
+  }, []);
+
+  // Apply one typed character at the caret; keydown, composition and beforeinput all end up here
+  const typeCharacter = useCallback(
+    (key: string) => {
+      // Composed and dead-key input can arrive decomposed, the prompt is NFC
+      const typedKey = key.normalize("NFC");
+      if (
+        !stateRef.current.testActive ||
+        stateRef.current.currentIndex >= stateRef.current.letterElements.length
+      ) {
+        return;
+      }
+      const currentLetter =
+        stateRef.current.letterElements[stateRef.current.currentIndex];
+      if (!currentLetter) return;
+
+      // Compare against the prompt, the span shows a glyph for line breaks
+      const index = stateRef.current.currentIndex;
+      const target = stateRef.current.prompt[index];
+      const isCorrect = typedKey === target;
+      const isStrict = stateRef.current.runModifiers.strict;
+      // Letters typed on a word's trailing space are extra letters, a space inside a word skips
+      // the rest of it; stop on error keeps plain letter-by-letter input
+      const isExtra = !isStrict && isWordBoundary(target) && !isWordBoundary(typedKey);
+      const isSkip = !isStrict && !isWordBoundary(target) && isWordBoundary(typedKey);
+      const extras = stateRef.current.overflow.get(index) ?? [];
+      if (isExtra && extras.length >= MAX_OVERFLOW) return;
+      // A space before any of the word is typed does nothing
+      if (isSkip && getWordStart(stateRef.current.prompt, index) === index) return;
+
+      const timestamp = performance.now() - stateRef.current.startTime;
+      // The end-of-clock timer can fire late; keys pressed after the clock ran out don't count
+      if (runMode.kind === "time" && timestamp > runMode.seconds * 1000) {
+        endGame();
+        return;
+      }
+
+      // Remove inline color so Tailwind classes can work
+      currentLetter.style.color = "";
+
+      stateRef.current.keystrokes.push({
+        key: typedKey,
+        timestamp,
+        index,
+        correct: isCorrect,
+      });
+
+      if (isExtra) {
+        const extraSpan = document.createElement("span");
+        extraSpan.className = "text-dark-error";
+        extraSpan.style.fontSize = currentLetter.style.fontSize;
+        extraSpan.style.lineHeight = "1.5em";
+        extraSpan.style.fontFamily = "monospace";
+        extraSpan.textContent = typedKey;
+        currentLetter.before(extraSpan);
+        stateRef.current.overflow.set(index, [...extras, extraSpan]);
+        stateRef.current.extraLetters += 1;
+        stateRef.current.errorCount += 1;
+        moveCursor(index);
+        return;
+      }
+
+      if (isSkip) {
+        // The skipped letters are missed: underlined and counted as errors
+        const nextWordStart = getNextWordStart(stateRef.current.prompt, index);
+        for (
+          let missed = index;
+          missed < nextWordStart && !isWordBoundary(stateRef.current.prompt[missed]);
+          missed += 1
+        ) {
+          stateRef.current.errorPositions.add(missed);
+          stateRef.current.letterElements[missed]?.classList.add("underline", "decoration-dark-error");
+        }
+        stateRef.current.skipOrigins.set(nextWordStart, index);
+        stateRef.current.errorCount += 1;
+        stateRef.current.currentIndex = nextWordStart;
+      } else if (isCorrect) {
+        currentLetter.classList.add("text-dark-main");
+        currentLetter.classList.remove("text-dark-error", "underline");
+        // If this position had an error and is now correct, mark as corrected
+        // (under stop on error the error stands even once the right key is found)
+        if (stateRef.current.errorPositions.has(stateRef.current.currentIndex) && !isStrict) {
+          stateRef.current.correctedErrors.add(stateRef.current.currentIndex);
+        }
+      } else {
+        currentLetter.classList.add("text-dark-error", "underline");
+        currentLetter.classList.remove("text-dark-main");
+        stateRef.current.errorCount += 1;
+        // Track this error position
+        stateRef.current.errorPositions.add(stateRef.current.currentIndex);
+        // Stop on error: the caret waits on the letter until the right key is pressed
+        if (isStrict) return;
+      }
+
+      if (!isSkip) stateRef.current.currentIndex += 1;
+
+      // Compare against when the ghost's caret first reached the same letter
+      const ghostReachTime = stateRef.current.ghostReachTimes.get(
+        stateRef.current.currentIndex
+      );
+      if (ghostDeltaRef.current && ghostReachTime !== undefined) {
+        const deltaMs = Math.round(timestamp - ghostReachTime);
+        ghostDeltaRef.current.textContent = `${deltaMs > 0 ? "+" : ""}${deltaMs}ms vs PB`;
+        ghostDeltaRef.current.classList.toggle("text-dark-error", deltaMs > 0);
+        ghostDeltaRef.current.classList.toggle("text-dark-highlight", deltaMs <= 0);
+      }
+
+      // Stream in more of the prompt before the caret reaches the end of the rendered text
+      if (
+        stateRef.current.pendingWords.length > 0 &&
+        stateRef.current.letterElements.length - stateRef.current.currentIndex <
+          STREAM_AHEAD_LETTERS
+      ) {
+        appendWordBatch();
+      }
+
+      if (roomRaceRun) {
+        reportRoomProgress(
+          stateRef.current.currentIndex,
+          stateRef.current.currentIndex === stateRef.current.totalLetters
+        );
+      }
+
+      if (
+        stateRef.current.currentIndex ===
+        stateRef.current.totalLetters
+      ) {
+        endGame();
+      } else {
+        moveCursor(stateRef.current.currentIndex);
+      }
+    },
+    [appendWordBatch, endGame, moveCursor, runMode, roomRaceRun, reportRoomProgress]
+  );
+
+  // Text from IME composition or beforeinput, typed as if each character had been its own keypress
+  const typeComposedText = useCallback(
+    (text: string) => {
+      if (showOverlay || showRoomPanel || showCustomPanel) return;
+      if (roomStartsAtRef.current !== null || stateRef.current.testFinished) return;
+      const characters = Array.from(text.normalize("NFC"));
+      if (characters.length === 0) return;
+      if (!stateRef.current.testActive) startTest();
+      characters.forEach((character) => typeCharacter(character));
+    },
+    [showOverlay, showRoomPanel, showCustomPanel, startTest, typeCharacter]
+  );
+
+  // Backspace from a key or a touch keyboard: removes the last extra letter, returns to where a
+  // space skipped the previous word, or steps back one letter (or one word for a word delete)
+  const deleteBackward = useCallback(
+    (isWordDelete: boolean) => {
+      if (!stateRef.current.testActive) return;
+      // Confidence mode: there is no going back
+      if (stateRef.current.runModifiers.confidence) return;
+      const index = stateRef.current.currentIndex;
+      const extras = stateRef.current.overflow.get(index) ?? [];
+      const skipOrigin = stateRef.current.skipOrigins.get(index);
+      let target = index - 1;
+      if (isWordDelete) {
+        target = getDeleteWordTarget(stateRef.current.prompt, index);
+        if (target === index && extras.length === 0) return;
+      } else if (extras.length > 0) {
+        target = index;
+      } else if (skipOrigin !== undefined) {
+        target = skipOrigin;
+      }
+      if (target < 0) return;
+
+      const timestamp = performance.now() - stateRef.current.startTime;
+      if (runMode.kind === "time" && timestamp > runMode.seconds * 1000) {
+        endGame();
+        return;
+      }
+
+      stateRef.current.keystrokes.push({
+        key: isWordDelete ? DELETE_WORD_KEY : "Backspace",
+        timestamp,
+        index: target,
+        correct: false,
+      });
+      if (!isWordDelete && extras.length > 0) {
+        extras[extras.length - 1].remove();
+        stateRef.current.overflow.set(index, extras.slice(0, -1));
+        stateRef.current.deletedExtraLetters += 1;
+      } else {
+        eraseTo(target);
+      }
+      moveCursor(stateRef.current.currentIndex);
+      if (roomRaceRun) reportRoomProgress(stateRef.current.currentIndex);
+    },
+    [endGame, eraseTo, moveCursor, runMode, roomRaceRun, reportRoomProgress]
+  );
+
   const handleKeydown = useCallback(
     (event: KeyboardEvent) => {
       // Reject programmatically generated events (prevents auto-typer scripts)
       if (!event.isTrusted) return;
 
       // NEW: Block all game input if overlay is visible
-      if (showOverlay) return;
+      if (showOverlay || showRoomPanel || showCustomPanel) return;
+
+      // Room races start for everyone at once when the countdown ends
+      if (roomStartsAtRef.current !== null) {
+        event.preventDefault();
+        return;
+      }
+
+      // IME and dead-key keystrokes are typed once composed, from compositionend or beforeinput
+      keyTypedRef.current = false;
+      if (
+        event.isComposing ||
+        event.keyCode === 229 ||
+        event.key === "Dead" ||
+        event.key === "Process"
+      ) {
+        return;
+      }
 
       if (event.key === "Tab") {
         event.preventDefault();
@@ -894,67 +1563,23 @@ export default function Home() {
 
       if (event.key === "Backspace") {
         event.preventDefault();
-        if (stateRef.current.currentIndex > 0) {
-          stateRef.current.currentIndex -= 1;
-          const letter =
-            stateRef.current.letterElements[stateRef.current.currentIndex];
-          if (letter) {
-            // If this position had an error, mark it as corrected
-            if (stateRef.current.errorPositions.has(stateRef.current.currentIndex)) {
-              stateRef.current.correctedErrors.add(stateRef.current.currentIndex);
-            }
-            letter.classList.remove(
-              "text-dark-main",
-              "text-dark-error",
-              "underline"
-            );
-            // Remove inline color to allow parent color to show
-            letter.style.color = "";
-          }
-          moveCursor(stateRef.current.currentIndex);
-        }
+        // Ctrl/Alt+Backspace deletes the word
+        deleteBackward(event.ctrlKey || event.altKey);
         return;
       }
 
-      if (
-        event.key.length === 1 &&
-        stateRef.current.currentIndex < stateRef.current.letterElements.length
-      ) {
-        const currentLetter =
-          stateRef.current.letterElements[stateRef.current.currentIndex];
-        if (!currentLetter) return;
-
-        // Remove inline color so Tailwind classes can work
-        currentLetter.style.color = "";
-
-        if (event.key === currentLetter.textContent) {
-          currentLetter.classList.add("text-dark-main");
-          currentLetter.classList.remove("text-dark-error", "underline");
-          // If this position had an error and is now correct, mark as corrected
-          if (stateRef.current.errorPositions.has(stateRef.current.currentIndex)) {
-            stateRef.current.correctedErrors.add(stateRef.current.currentIndex);
-          }
-        } else {
-          currentLetter.classList.add("text-dark-error", "underline");
-          currentLetter.classList.remove("text-dark-main");
-          stateRef.current.errorCount += 1;
-          // Track this error position
-          stateRef.current.errorPositions.add(stateRef.current.currentIndex);
-        }
-
-        stateRef.current.currentIndex += 1;
+      // Enter types the line breaks of code snippets and custom text; other prompts have none,
+      // so it mustn't reach typeCharacter as a word boundary there
+      const typesLineBreak = event.key === "Enter" && stateRef.current.prompt.includes("\n");
+      const typedKey = typesLineBreak ? "\n" : event.key;
 
-        if (
-          stateRef.current.currentIndex ===
-          stateRef.current.letterElements.length
-        ) {
-          endGame();
-        } else {
-          moveCursor(stateRef.current.currentIndex);
-        }
+      if (typedKey.length === 1) {
+        if (typedKey === "\n") event.preventDefault();
+        keyTypedRef.current = true;
+        typeCharacter(typedKey);
       }
     },
-    [endGame, initGame, moveCursor, startTest, showOverlay] // NEW: Added showOverlay dependency
+    [initGame, startTest, typeCharacter, deleteBackward, showOverlay, showRoomPanel, showCustomPanel] // NEW: Added showOverlay dependency
   );
 
   useEffect(() => {
@@ -964,9 +1589,7 @@ export default function Home() {
     // NEW: Only focus the game if the overlay is not visible
     let focusFrame: number | undefined;
     if (!showOverlay) {
-      focusFrame = window.requestAnimationFrame(() =>
-        appBodyRef.current?.focus()
-      );
+      focusFrame = window.requestAnimationFrame(() => focusTyping());
     }
 
     return () => {
@@ -979,12 +1602,67 @@ export default function Home() {
         clearTimeout(tabTimeoutRef.current);
       }
     };
-  }, [handleKeydown, showOverlay]); // NEW: Added showOverlay dependency
+  }, [handleKeydown, focusTyping, showOverlay]); // NEW: Added showOverlay dependency
 
-  // Re-init when mode changes
+  // Composition (IME languages, macOS dead keys) and keyless input land in the hidden typing input.
+  // Touch keyboards often send no usable keydown at all, so their text and deletions arrive here too
   useEffect(() => {
-    initGame();
-  }, [gameMode, initGame]);
+    const input = typingInputRef.current;
+    if (!input) return;
+    input.value = INPUT_SENTINEL;
+
+    const handleCompositionEnd = (event: CompositionEvent) => {
+      if (!event.isTrusted) return;
+      typeComposedText(event.data);
+      input.value = INPUT_SENTINEL;
+    };
+
+    const handleBeforeInput = (event: InputEvent) => {
+      if (!event.isTrusted) return;
+      // The IME needs its composition text in the input; it's typed on compositionend
+      if (event.isComposing || event.inputType === "insertCompositionText") return;
+      // Left to handleInput, which reads the change from the input's value
+      if (!event.cancelable) return;
+      event.preventDefault();
+      // Keys with a usable event.key were already typed by handleKeydown
+      if (!keyTypedRef.current && !showOverlay && !showRoomPanel && !showCustomPanel) {
+        if (event.inputType === "insertText" && event.data) {
+          typeComposedText(event.data);
+        } else if (event.inputType === "insertLineBreak" || event.inputType === "insertParagraph") {
+          typeComposedText("\n");
+        } else if (event.inputType === "deleteContentBackward") {
+          deleteBackward(false);
+        } else if (event.inputType === "deleteWordBackward") {
+          deleteBackward(true);
+        }
+      }
+      keyTypedRef.current = false;
+    };
+
+    // Input that couldn't be cancelled changed the value: a missing sentinel is a deletion,
+    // anything after it was typed
+    const handleInput = (event: Event) => {
+      if (!event.isTrusted || (event as InputEvent).isComposing) return;
+      const value = input.value;
+      if (value === INPUT_SENTINEL) return;
+      input.value = INPUT_SENTINEL;
+      if (showOverlay || showRoomPanel || showCustomPanel) return;
+      if (!value.startsWith(INPUT_SENTINEL)) {
+        deleteBackward(false);
+      } else {
+        typeComposedText(value.slice(INPUT_SENTINEL.length));
+      }
+    };
+
+    input.addEventListener("compositionend", handleCompositionEnd);
+    input.addEventListener("beforeinput", handleBeforeInput);
+    input.addEventListener("input", handleInput);
+    return () => {
+      input.removeEventListener("compositionend", handleCompositionEnd);
+      input.removeEventListener("beforeinput", handleBeforeInput);
+      input.removeEventListener("input", handleInput);
+    };
+  }, [typeComposedText, deleteBackward, showOverlay, showRoomPanel, showCustomPanel]);
 
   // Continuously trigger wavy animation
   useEffect(() => {
@@ -1185,10 +1863,28 @@ export default function Home() {
   // Overlay is already set synchronously in useState initializer above
   // No need for this useEffect
 
+  const handleCopySeedLink = useCallback(async () => {
+    if (!promptSeed) return;
+    // The prompt came from the run's settings, which rooms override and the menus may have changed since
+    const { runModifiers, runLanguage, runWordList } = stateRef.current;
+    const modifiersKey = getModifiersKey(runModifiers);
+    const link =
+      `${window.location.origin}/?seed=${promptSeed}&mode=${getGameModeKey(gameMode)}` +
+      (modifiersKey ? `&mods=${modifiersKey}` : "") +
+      (runLanguage !== DEFAULT_LANGUAGE ? `&lang=${runLanguage}` : "") +
+      (runWordList !== DEFAULT_WORD_LIST ? `&list=${runWordList}` : "");
+    try {
+      await navigator.clipboard.writeText(link);
+      setSeedLinkCopied(true);
+    } catch {
+      // Failed to copy to clipboard
+    }
+  }, [promptSeed, gameMode]);
+
   const handleRestart = useCallback(() => {
     initGame();
-    appBodyRef.current?.focus();
-  }, [initGame]);
+    focusTyping();
+  }, [initGame, focusTyping]);
 
   const handleShare = useCallback(
     async (platform?: "twitter" | "facebook" | "linkedin") => {
@@ -1353,7 +2049,7 @@ Can you beat Etherlink's instant confirmations?`;
     
     setShowOverlay(false);
     // Focus the game window now that the overlay is gone
-    requestAnimationFrame(() => appBodyRef.current?.focus());
+    requestAnimationFrame(() => focusTyping());
   };
 
   // Handler for Twitter sign-in - just start OAuth flow
@@ -1440,6 +2136,18 @@ Can you beat Etherlink's instant confirmations?`;
                 >
                   Leaderboard
                 </Link>
+                <button
+                  onClick={() => setShowRoomPanel(true)}
+                  className="text-dark-dim hover:text-dark-highlight transition-colors text-left"
+                >
+                  {roomSnapshot ? `Race Room ${roomSnapshot.code}` : "Race Room"}
+                </button>
+                <button
+                  onClick={() => setShowCustomPanel(true)}
+                  className="text-dark-dim hover:text-dark-highlight transition-colors text-left"
+                >
+                  Custom Text
+                </button>
                 <button
                   onClick={() => setShowHowToPlay(true)}
                   className="text-dark-dim hover:text-dark-highlight transition-colors text-left"
@@ -1549,7 +2257,7 @@ Can you beat Etherlink's instant confirmations?`;
                               {/* Scores loading placeholders */}
                               {GAME_MODES.map((mode) => (
                                 <div
-                                  key={mode}
+                                  key={getGameModeKey(mode)}
                                   className="flex items-center justify-between"
                                 >
                                   <motion.div
@@ -1642,11 +2350,11 @@ Can you beat Etherlink's instant confirmations?`;
                               <div className="space-y-2">
                                 {allUserScores.map((score) => (
                                   <div
-                                    key={score.game_mode}
+                                    key={score.id}
                                     className="flex items-center justify-between"
                                   >
                                     <div className="text-xs text-dark-dim">
-                                      {score.game_mode} words
+                                      {getGameModeLabel(toGameMode(score.game_mode, score.game_mode_kind))}
                             </div>
                                     <div className="text-sm font-bold text-dark-main">
                                       {score.lps.toFixed(2)} lps
@@ -1716,80 +2424,283 @@ Can you beat Etherlink's instant confirmations?`;
               Proof of Speed
             </span>
           </div>
-          <div className="flex items-center space-x-6 rounded-lg bg-dark-kbd p-2 text-sm font-mono group-[.test-finished]:hidden">
+          <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 rounded-lg bg-dark-kbd p-2 text-sm font-mono group-[.test-finished]:hidden">
+            <div className="relative" onMouseLeave={() => setShowLanguageMenu(false)}>
+              <button
+                className={`flex items-center space-x-1 transition-colors disabled:opacity-50 ${
+                  language !== DEFAULT_LANGUAGE && wordList !== "web3"
+                    ? "text-dark-highlight"
+                    : "text-dark-dim hover:text-dark-main"
+                }`}
+                disabled={wordList === "web3"}
+                title={wordList === "web3" ? "The web3 vocabulary is english only" : "Word list language"}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setShowLanguageMenu((prev) => !prev);
+                }}
+              >
+                <i className="fa-solid fa-globe h-4 w-4" />
+                <span className="lowercase tracking-wider">{getLanguageLabel(language)}</span>
+              </button>
+              {showLanguageMenu && (
+                <div className="absolute left-0 top-full z-30 pt-2">
+                  <ul className="rounded-md bg-dark-kbd py-1 shadow-lg">
+                    {LANGUAGES.map((option) => (
+                      <li key={option.key}>
+                        <button
+                          className={`block w-full whitespace-nowrap px-3 py-1 text-left lowercase tracking-wider transition-colors ${
+                            option.key === language
+                              ? "text-dark-highlight"
+                              : "text-dark-dim hover:text-dark-main"
+                          }`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setShowLanguageMenu(false);
+                            setDailyEnabled(false);
+                            setCustomText(null);
+                            setLanguage(option.key);
+                          }}
+                        >
+                          {option.label}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
             <button
-              className="flex items-center space-x-1 text-dark-highlight hover:text-dark-highlight transition-colors"
-              title="Words"
+              className={`flex items-center space-x-1 transition-colors ${
+                wordList === "web3"
+                  ? "text-dark-highlight"
+                  : "text-dark-dim hover:text-dark-main"
+              }`}
+              title="Web3 vocabulary: learn Etherlink terms as you type"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setDailyEnabled(false);
+                setCustomText(null);
+                setWordList((prev) => (prev === "web3" ? DEFAULT_WORD_LIST : "web3"));
+              }}
             >
-              <i className="fa-solid fa-hashtag h-4 w-4" />
-              <span className="lowercase tracking-wider">words</span>
+              <i className="fa-solid fa-cube h-4 w-4" />
+              <span className="lowercase tracking-wider">web3</span>
             </button>
             <div className="h-5 w-px bg-dark-dim" />
-            <div className="flex items-center space-x-3 text-dark-main">
-              {GAME_MODES.map((mode) => (
+            {PROMPT_MODIFIERS.map((modifier) => (
+              <button
+                key={modifier.key}
+                className={`flex items-center space-x-1 transition-colors ${
+                  modifiers[modifier.key]
+                    ? "text-dark-highlight"
+                    : "text-dark-dim hover:text-dark-main"
+                }`}
+                title={modifier.label}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  // The daily challenge is played without modifiers
+                  setDailyEnabled(false);
+                  setModifiers((prev) => ({ ...prev, [modifier.key]: !prev[modifier.key] }));
+                }}
+              >
+                <i className={`fa-solid ${modifier.icon} h-4 w-4`} />
+                <span className="lowercase tracking-wider">{modifier.label}</span>
+              </button>
+            ))}
+            <div className="h-5 w-px bg-dark-dim" />
+            {MODE_KIND_OPTIONS.map((option, optionIndex) => (
+              <Fragment key={option.kind}>
+                {optionIndex > 0 && <div className="h-5 w-px bg-dark-dim" />}
                 <button
-                  key={mode}
-                  className={`lowercase tracking-wider transition-colors cursor-pointer relative ${
-                    gameMode === mode
+                  className={`flex items-center space-x-1 transition-colors ${
+                    !dailyEnabled && gameMode.kind === option.kind
                       ? "text-dark-highlight"
-                      : "hover:text-dark-main"
+                      : "text-dark-dim hover:text-dark-main"
                   }`}
+                  title={option.label}
                   onClick={(e) => {
                     e.preventDefault();
                     e.stopPropagation();
-                    setGameMode(mode as GameMode);
-                  }}
-                  onMouseEnter={() => {
-                    if (animationTimeoutRef.current) {
-                      clearTimeout(animationTimeoutRef.current);
-                    }
-                    setHoveredMode(mode);
-                    
-                    // Animate through random numbers for 100ms
-                    const startTime = Date.now();
-                    const duration = 100;
-                    
-                    const animate = () => {
-                      const elapsed = Date.now() - startTime;
-                      
-                      if (elapsed < duration) {
-                        // Generate random number between 10-99, but avoid the target number
-                        let randomNum;
-                        do {
-                          randomNum = Math.floor(Math.random() * 90) + 10;
-                        } while (randomNum === mode);
-                        
-                        setAnimatedNumber(randomNum);
-                        requestAnimationFrame(animate);
-                      } else {
-                        // Land on the target number
-                        setAnimatedNumber(mode);
-                      }
-                    };
-                    animate();
-                  }}
-                  onMouseLeave={() => {
-                    if (animationTimeoutRef.current) {
-                      clearTimeout(animationTimeoutRef.current);
-                    }
-                    setHoveredMode(null);
-                    setAnimatedNumber(null);
+                    setDailyEnabled(false);
+                    setCustomText(null);
+                    if (gameMode.kind === option.kind) return;
+                    const firstMode = GAME_MODES.find((mode) => mode.kind === option.kind);
+                    if (firstMode) setGameMode(firstMode);
                   }}
                 >
-                  <motion.span
-                    key={hoveredMode === mode ? animatedNumber : mode}
-                    initial={{ opacity: 0, y: -5 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.05 }}
-                    className="inline-block pointer-events-none"
-                  >
-                    {hoveredMode === mode && animatedNumber !== null
-                      ? animatedNumber
-                      : mode}
-                  </motion.span>
+                  <i className={`fa-solid ${option.icon} h-4 w-4`} />
+                  <span className="lowercase tracking-wider">{option.label}</span>
                 </button>
-              ))}
+                <div className="h-5 w-px bg-dark-dim" />
+                <div className="flex items-center space-x-3 text-dark-main">
+                  {GAME_MODES.filter((mode) => mode.kind === option.kind).map((mode) => {
+                    const modeKey = getGameModeKey(mode);
+                    const modeValue = getGameModeValue(mode);
+                    return (
+                      <button
+                        key={modeKey}
+                        className={`lowercase tracking-wider transition-colors cursor-pointer relative ${
+                          !dailyEnabled && isSameGameMode(gameMode, mode)
+                            ? "text-dark-highlight"
+                            : "hover:text-dark-main"
+                        }`}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          setDailyEnabled(false);
+                          setCustomText(null);
+                          setGameMode(mode);
+                        }}
+                        onMouseEnter={() => {
+                          if (animationTimeoutRef.current) {
+                            clearTimeout(animationTimeoutRef.current);
+                          }
+                          // Code modes are named, there's no number to spin through
+                          if (mode.kind === "code") return;
+                          setHoveredMode(modeKey);
+                          
+                          // Animate through random numbers for 100ms
+                          const startTime = Date.now();
+                          const duration = 100;
+                          
+                          const animate = () => {
+                            const elapsed = Date.now() - startTime;
+                            
+                            if (elapsed < duration) {
+                              // Generate random number between 10-99, but avoid the target number
+                              let randomNum;
+                              do {
+                                randomNum = Math.floor(Math.random() * 90) + 10;
+                              } while (randomNum === modeValue);
+                              
+                              setAnimatedNumber(randomNum);
+                              requestAnimationFrame(animate);
+                            } else {
+                              // Land on the target number
+                              setAnimatedNumber(modeValue);
+                            }
+                          };
+                          animate();
+                        }}
+                        onMouseLeave={() => {
+                          if (animationTimeoutRef.current) {
+                            clearTimeout(animationTimeoutRef.current);
+                          }
+                          setHoveredMode(null);
+                          setAnimatedNumber(null);
+                        }}
+                      >
+                        <motion.span
+                          key={hoveredMode === modeKey ? animatedNumber : modeValue}
+                          initial={{ opacity: 0, y: -5 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ duration: 0.05 }}
+                          className="inline-block pointer-events-none"
+                        >
+                          {mode.kind === "code"
+                            ? getGameModeLabel(mode)
+                            : hoveredMode === modeKey && animatedNumber !== null
+                              ? animatedNumber
+                              : modeValue}
+                        </motion.span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </Fragment>
+            ))}
+            <div className="h-5 w-px bg-dark-dim" />
+            <div className="relative" onMouseLeave={() => setShowPacerMenu(false)}>
+              <button
+                className={`flex items-center space-x-1 transition-colors ${
+                  pacerChain !== DEFAULT_PACER_CHAIN
+                    ? "text-dark-highlight"
+                    : "text-dark-dim hover:text-dark-main"
+                }`}
+                title="Chain the pacer races you at, one letter per block"
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setShowPacerMenu((prev) => !prev);
+                }}
+              >
+                <i className="fa-solid fa-gauge-high h-4 w-4" />
+                <span className="lowercase tracking-wider">vs {getChain(chains, pacerChain).name}</span>
+              </button>
+              {showPacerMenu && (
+                <div className="absolute left-0 top-full z-30 pt-2">
+                  <ul className="rounded-md bg-dark-kbd py-1 shadow-lg">
+                    {[...chains].reverse().map((chain) => (
+                      <li key={chain.key}>
+                        <button
+                          className={`flex w-full items-center justify-between gap-4 whitespace-nowrap px-3 py-1 text-left lowercase tracking-wider transition-colors ${
+                            chain.key === pacerChain
+                              ? "text-dark-highlight"
+                              : "text-dark-dim hover:text-dark-main"
+                          }`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setShowPacerMenu(false);
+                            setDailyEnabled(false);
+                            setPacerChain(chain.key);
+                          }}
+                        >
+                          <span>{chain.name}</span>
+                          <span style={{ color: chain.color }}>
+                            {chain.displayTime ?? `${chain.ms}ms`}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
+            <div className="h-5 w-px bg-dark-dim" />
+            <button
+              className={`flex items-center space-x-1 transition-colors ${
+                ghostEnabled
+                  ? "text-dark-highlight"
+                  : "text-dark-dim hover:text-dark-main"
+              }`}
+              title="Race your personal best (unranked)"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setDailyEnabled(false);
+                setGhostEnabled((prev) => !prev);
+              }}
+            >
+              <i className="fa-solid fa-ghost h-4 w-4" />
+              <span className="lowercase tracking-wider">ghost</span>
+            </button>
+            <div className="h-5 w-px bg-dark-dim" />
+            <button
+              className={`flex items-center space-x-1 transition-colors ${
+                dailyEnabled
+                  ? "text-dark-highlight"
+                  : "text-dark-dim hover:text-dark-main"
+              }`}
+              title="Today's challenge: same prompt for everyone, one ranked attempt"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                if (!dailyEnabled) {
+                  setGhostEnabled(false);
+                  setCustomText(null);
+                  setGameMode(DAILY_GAME_MODE);
+                }
+                setDailyEnabled(!dailyEnabled);
+              }}
+            >
+              <i className="fa-solid fa-calendar-day h-4 w-4" />
+              <span className="lowercase tracking-wider">daily</span>
+            </button>
           </div>
           {!showOverlay && playerName && playerName !== "you" && (
             <div className="text-sm font-mono text-dark-dim group-[.test-finished]:hidden">
@@ -1810,41 +2721,123 @@ Can you beat Etherlink's instant confirmations?`;
               <i className="fa-solid fa-globe h-4 w-4" />
               <span>Click or press the first letter to begin</span>
           </button>
+
+          {customText !== null && (
+            <div className="mb-4 flex items-center gap-3 text-sm font-mono text-dark-dim group-[.test-finished]:hidden">
+              <span>custom text · unranked</span>
+              <button
+                onClick={() => setShowCustomPanel(true)}
+                className="hover:text-dark-highlight transition-colors"
+              >
+                edit
+              </button>
+              <button
+                onClick={() => setCustomText(null)}
+                className="hover:text-dark-highlight transition-colors"
+              >
+                exit
+              </button>
+            </div>
+          )}
+
+          {dailyEnabled && customText === null && (
+            <div className="mb-4 text-sm font-mono text-dark-dim group-[.test-finished]:hidden">
+              daily challenge · {getDailyDay()}
+              {dailyNotice && <span className="text-dark-error"> · {dailyNotice} (unranked)</span>}
+            </div>
+          )}
+
+          {ghostActive && runUnranked && (
+            <div className="mb-4 text-sm font-mono text-dark-dim group-[.test-finished]:hidden">
+              ghost race · unranked
+            </div>
+          )}
           
+          {roomRaceRun && roomSnapshot && (
+            <div className="w-full max-w-3xl group-[.test-finished]:hidden">
+              <RaceProgress room={roomSnapshot} playerName={playerName} />
+            </div>
+          )}
+
           <div
             id="test-area"
             className="relative flex min-h-[200px] w-full max-w-5xl items-center justify-center group-[.test-finished]:hidden"
-            onClick={() => appBodyRef.current?.focus()}
+            onClick={() => focusTyping()}
           >
+            {roomCountdown !== null && (
+              <div className="absolute inset-0 z-20 flex items-center justify-center bg-dark-bg/70 font-mono text-7xl font-bold text-dark-highlight">
+                {roomCountdown > 0 ? roomCountdown : "go"}
+              </div>
+            )}
             <div
               id="words-wrapper"
               className="relative max-w-5xl mx-auto font-mono"
               style={{
                 paddingBottom:
-                  gameMode === 30 ? "3rem" : "2rem",
+                  gameMode.kind === "words" && gameMode.count === 30 ? "3rem" : "2rem",
               }}
             >
+              <input
+                ref={typingInputRef}
+                type="text"
+                lang={language}
+                aria-label="Type the prompt"
+                autoComplete="off"
+                autoCorrect="off"
+                autoCapitalize="off"
+                spellCheck={false}
+                // 16px keeps iOS from zooming the page when the input takes focus
+                className="pointer-events-none absolute left-0 top-0 h-px w-px text-base opacity-0"
+              />
               <div
                 id="cursor"
                 ref={cursorRef}
                 className="animate-blink absolute mt-[-2px] h-[2.25rem] w-[2px] bg-dark-highlight transition-all duration-100 hidden group-[.test-started]:block z-10"
               />
+              <div
+                id="pacer-cursor"
+                ref={pacerCursorRef}
+                className="absolute mt-[-2px] h-[2.25rem] w-[2px] opacity-70 transition-all duration-100 hidden group-[.test-started]:block z-10"
+                style={{ backgroundColor: getChain(chains, runPacerChain).color }}
+              />
+              {ghostActive && (
+                <>
+                  <div
+                    id="ghost-cursor"
+                    ref={ghostCursorRef}
+                    className="absolute mt-[-2px] h-[2.25rem] w-[2px] bg-dark-dim opacity-50 transition-all duration-100 hidden group-[.test-started]:block z-10"
+                  />
+                  <div
+                    ref={ghostDeltaRef}
+                    className="absolute -top-8 right-2 text-sm font-mono text-dark-dim"
+                    style={{ fontVariantNumeric: "tabular-nums" }}
+                  />
+                </>
+              )}
               
               <div 
                 id="words" 
                 ref={wordsRef} 
                 className="max-w-5xl min-h-[12.5rem] flex flex-wrap content-start overflow-y-auto transition-all duration-300 font-mono cursor-text relative z-10" 
                 style={{ 
-                  fontSize: "32px", 
+                  fontSize: device === "mobile" ? "24px" : "32px", 
                   lineHeight: "1.5em", 
                   color: "#646669",
                   opacity: textFocused || testStarted ? 1 : 0.2,
+                  // Timed prompts and custom text show three lines at a time and scroll with the caret
+                  ...(gameMode.kind === "time" || customText !== null
+                    ? { minHeight: "4.5em", maxHeight: "4.5em", overflowY: "hidden" }
+                    : {}),
+                  // Code is set smaller and shows six lines at a time
+                  ...(runMode.kind === "code"
+                    ? { fontSize: "24px", minHeight: "9em", maxHeight: "9em", overflowY: "hidden" }
+                    : {}),
                 }}
                 onClick={() => {
                   if (!testStarted && !testFinished) {
                     setTextFocused(true);
-                    // Focus the app body to capture keyboard input
-                    appBodyRef.current?.focus();
+                    // Focus the typing input to capture keyboard and IME input
+                    focusTyping();
                   }
                 }}
               />
@@ -1853,8 +2846,24 @@ Can you beat Etherlink's instant confirmations?`;
                     key={pacerResetKey}
                     totalLetters={totalLetters}
                     testActive={testStarted}
-                    speedMs={200}
+                    speedMs={getChain(chains, runPacerChain).ms}
+                    gameMode={runMode}
+                    chainName={getChain(chains, runPacerChain).name}
+                    color={getChain(chains, runPacerChain).color}
                   />
+              {/* Touch keyboards have no Esc or Tab, so phones get a restart button */}
+              {device === "mobile" && (
+                <button
+                  className="mx-auto mt-4 flex items-center space-x-2 text-sm text-dark-dim transition-colors hover:text-dark-main"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRestart();
+                  }}
+                >
+                  <i className="fa-solid fa-rotate-right h-4 w-4" />
+                  <span className="lowercase tracking-wider">restart</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -1864,6 +2873,17 @@ Can you beat Etherlink's instant confirmations?`;
             ref={resultsScreenRef}
             className="text-center font-mono hidden group-[.test-finished]:block w-full max-w-4xl px-6"
           >
+            {roomRaceRun && roomSnapshot && (
+              <RacePodium room={roomSnapshot} playerName={playerName} />
+            )}
+
+            {customText !== null && (
+              <div className="mb-6 inline-flex items-center gap-2 rounded-md border border-dark-dim/40 px-3 py-1 text-sm text-dark-dim lowercase tracking-wider">
+                <i className="fa-solid fa-flask h-4 w-4" />
+                <span>custom text · unranked, not saved</span>
+              </div>
+            )}
+
             {/* 1. Big Score */}
             <div className="text-center mb-10">
               <div
@@ -1922,6 +2942,27 @@ Can you beat Etherlink's instant confirmations?`;
                     />
                   </div>
                 </div>
+                <div>
+                  <div
+                    className="text-lg text-dark-dim text-left"
+                    title="words per minute (5 letters = 1 word)"
+                  >
+                    wpm
+                  </div>
+                  <div
+                    id="result-wpm"
+                    className="text-4xl font-bold text-dark-main text-left"
+                    title="words per minute (5 letters = 1 word)"
+                  >
+                    <CountUp value={parseFloat(results.wpm) || 0} decimals={1} />
+                  </div>
+                  <div
+                    className="text-sm text-dark-dim text-left"
+                    title="raw wpm counts every typed letter, errors included"
+                  >
+                    raw {results.rawWpm}
+                  </div>
+                </div>
               </div>
 
               {/* Column 2: Comparison Stats */}
@@ -1940,6 +2981,16 @@ Can you beat Etherlink's instant confirmations?`;
                     />{" "}
                     <span className="text-xl">ms/letter</span>
                   </div>
+                  <div
+                    id="result-pacer"
+                    className={`text-sm text-left ${
+                      results.beatPacer ? "text-dark-highlight" : "text-dark-dim"
+                    }`}
+                  >
+                    {results.beatPacer
+                      ? `you beat ${getChain(chains, results.pacerChain).name} by ${results.comparison.replace("-", "")}ms/letter`
+                      : `${getChain(chains, results.pacerChain).name} beat you by ${results.comparison.replace("+", "")}ms/letter`}
+                  </div>
                 </div>
                 <div>
                   <div className="text-lg text-dark-dim text-left">time</div>
@@ -1954,12 +3005,39 @@ Can you beat Etherlink's instant confirmations?`;
                     />
                   </div>
                 </div>
+                <div>
+                  <div
+                    className="text-lg text-dark-dim text-left"
+                    title="how steady your speed was from second to second"
+                  >
+                    consistency
+                  </div>
+                  <div
+                    id="result-consistency"
+                    className="text-3xl font-bold text-dark-main text-left"
+                  >
+                    <CountUp
+                      value={parseFloat(results.consistency.replace("%", "")) || 0}
+                      decimals={1}
+                      suffix="%"
+                    />
+                  </div>
+                </div>
               </div>
 
               {/* Column 3: Real Leaderboard */}
               <div className="flex flex-col space-y-2 pb-2">
                 <div className="text-lg text-dark-dim text-left">
-                  rankings (words: {gameMode})
+                  rankings ({getGameModeLabel(gameMode)}
+                  {gameMode.kind !== "code" && (
+                    <>
+                      {getModifiersKey(modifiers) && `, ${getModifiersLabel(modifiers)}`}
+                      {wordList !== DEFAULT_WORD_LIST
+                        ? `, ${getWordListLabel(wordList)}`
+                        : language !== DEFAULT_LANGUAGE && `, ${getLanguageLabel(language)}`}
+                    </>
+                  )}
+                  {device === "mobile" && ", mobile"})
                 </div>
                 {rankingsLoading ? (
                   <div className="text-sm text-dark-dim">Loading...</div>
@@ -2059,6 +3137,12 @@ Can you beat Etherlink's instant confirmations?`;
                       {RANK_DESCRIPTIONS[getRankName(results.rank)]}
                     </div>
                   )}
+                  {results.speedComparison && (
+                    <div id="result-speed-comparison" className="mt-2 text-sm text-dark-dim font-mono">
+                      you were as fast as{" "}
+                      <span className="text-dark-main">{results.speedComparison}</span> blocks
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -2067,7 +3151,7 @@ Can you beat Etherlink's instant confirmations?`;
                 // Calculate triangle position based on user's actual msPerLetter value
                 // Only compute the position - everything else is static
                 const userMsPerLetter = parseFloat(results.msPerLetter) || 0;
-                const speedValue = getSpeedPosition(userMsPerLetter);
+                const speedValue = getSpeedPosition(chains, userMsPerLetter);
                 const clampedSpeedValue = Math.max(
                   0,
                   Math.min(100, speedValue)
@@ -2083,9 +3167,9 @@ Can you beat Etherlink's instant confirmations?`;
                           className="h-1 rounded-sm w-full"
                           animate={{
                             background: [
-                              `linear-gradient(to right, ${GRADIENT_STRING})`,
-                              `linear-gradient(to right, ${BRIGHTER_GRADIENT_STRING})`,
-                              `linear-gradient(to right, ${GRADIENT_STRING})`,
+                              `linear-gradient(to right, ${gradientString})`,
+                              `linear-gradient(to right, ${brighterGradientString})`,
+                              `linear-gradient(to right, ${gradientString})`,
                             ],
                           }}
                           transition={{
@@ -2094,7 +3178,7 @@ Can you beat Etherlink's instant confirmations?`;
                             ease: "easeInOut",
                           }}
                           style={{
-                            background: `linear-gradient(to right, ${GRADIENT_STRING})`,
+                            background: `linear-gradient(to right, ${gradientString})`,
                           }}
                         />
                         {/* Animated Shimmer Overlay */}
@@ -2117,14 +3201,14 @@ Can you beat Etherlink's instant confirmations?`;
                 </div>
                       
                       {/* Vertical Marker Lines for Each Blockchain - Adjusted for chart width */}
-                      {CHAIN_POSITIONS.map((blockchain) => {
+                      {getChainPositions(chains).map((blockchain) => {
                         // Adjust position to account for chart padding
                         const adjustedPosition =
                           CHART_START_OFFSET +
                           (blockchain.position / 100) * CHART_WIDTH;
                         return (
                           <div
-                            key={blockchain.name}
+                            key={blockchain.key}
                             className="absolute top-0"
                             style={{
                               left: `${adjustedPosition}%`,
@@ -2147,7 +3231,7 @@ Can you beat Etherlink's instant confirmations?`;
                                 minWidth: "100px",
                               }}
                             >
-                              {blockchain.name === "Etherlink" ? (
+                              {blockchain.key === "etherlink" ? (
                                 // Special layout for Etherlink - icon inline with text, time below
                                 <div className="flex items-center gap-1">
                                   {/* Text Content */}
@@ -2169,7 +3253,7 @@ Can you beat Etherlink's instant confirmations?`;
                                       )}
                                       <div
                                         className="text-xs font-mono font-bold leading-tight whitespace-nowrap"
-                                        style={{ color: blockchain.color }}
+                                        style={{ color: getLabelColor(blockchain.color) }}
                                       >
                                         {blockchain.name}
                                       </div>
@@ -2178,9 +3262,10 @@ Can you beat Etherlink's instant confirmations?`;
                                     {/* Block Time - aligned same as other chains */}
                                     <div
                                       className="text-[10px] font-mono leading-tight"
-                                      style={{ color: blockchain.color }}
+                                      style={{ color: getLabelColor(blockchain.color) }}
                                     >
-                                      50ms
+                                      {blockchain.displayTime ||
+                                        `${blockchain.ms.toLocaleString()}ms`}
                                     </div>
                                   </div>
                                 </div>
@@ -2206,7 +3291,7 @@ Can you beat Etherlink's instant confirmations?`;
                                   {/* Name */}
                                   <div 
                                     className="text-xs font-mono font-bold leading-tight"
-                                    style={{ color: blockchain.color }}
+                                    style={{ color: getLabelColor(blockchain.color) }}
                                   >
                                     {blockchain.name}
                                   </div>
@@ -2214,7 +3299,7 @@ Can you beat Etherlink's instant confirmations?`;
                                   {/* Block Time */}
                                   <div 
                                     className="text-[10px] font-mono leading-tight"
-                                    style={{ color: blockchain.color }}
+                                    style={{ color: getLabelColor(blockchain.color) }}
                                   >
                                       {blockchain.displayTime ||
                                         `${blockchain.ms.toLocaleString()}ms`}
@@ -2280,6 +3365,69 @@ Can you beat Etherlink's instant confirmations?`;
               })()}
             </div>
 
+            {/* Speed of each word, against the pacer and chain block times */}
+            {speedTimeline && (
+              <SpeedChart timeline={speedTimeline} chains={chains} pacerMs={getChain(chains, results.pacerChain).ms} />
+            )}
+
+            {/* How this run compares with every chain, captured in the share screenshot */}
+            {results.letters > 0 && (
+              <ChainBreakdown
+                chains={chains}
+                letters={results.letters}
+                durationMs={results.durationMs}
+                pacerChain={results.pacerChain}
+              />
+            )}
+
+            {/* Optional replay of the run racing every chain, one lane each */}
+            {raceTimeline && results.letters > 0 && (showRaceReplay ? (
+              <ChainRace
+                playerName={playerName}
+                caretTimeline={raceTimeline}
+                letters={results.letters}
+                durationMs={results.durationMs}
+                chains={chains}
+                gradientStops={gradientStops}
+                onClose={() => setShowRaceReplay(false)}
+              />
+            ) : (
+              <div className="mt-6 flex justify-center text-sm font-mono text-dark-dim">
+                <button
+                  type="button"
+                  onClick={() => setShowRaceReplay(true)}
+                  className="flex items-center space-x-2 lowercase tracking-wider hover:text-dark-highlight transition-colors"
+                >
+                  <i className="fa-solid fa-flag-checkered h-4 w-4" />
+                  <span>watch the chain race</span>
+                </button>
+              </div>
+            ))}
+
+            {/* Definitions of the web3 vocabulary typed today */}
+            {vocabulary && <VocabularyList runWords={vocabulary.run} todayWords={vocabulary.today} />}
+
+            {/* Per-key error and latency heatmap */}
+            {keyStats && <KeyboardHeatmap run={keyStats.run} history={keyStats.history} />}
+
+            {/* Prompt seed, so the exact same words can be replayed */}
+            {promptSeed && (
+              <div className="mt-10 flex items-center justify-center space-x-4 text-sm font-mono text-dark-dim">
+                <span>
+                  seed <span className="text-dark-main">{promptSeed}</span>
+                  {runUnranked && <span> · shared prompt (unranked)</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleCopySeedLink}
+                  className="flex items-center space-x-1 lowercase tracking-wider hover:text-dark-highlight transition-colors"
+                >
+                  <i className={`fa-solid ${seedLinkCopied ? "fa-check" : "fa-link"} h-4 w-4`} />
+                  <span>{seedLinkCopied ? "link copied" : "copy link to this prompt"}</span>
+                </button>
+              </div>
+            )}
+
             {/* Restart Button and Leaderboard Link */}
             <div className="mt-16 flex items-center justify-center space-x-6">
               <button
@@ -2297,6 +3445,16 @@ Can you beat Etherlink's instant confirmations?`;
                 <i className="fa-solid fa-star h-4 w-4" />
                 <span className="ml-1">leaderboard</span>
               </Link>
+              {explorerRunId && (
+                <Link
+                  href={`/run/${explorerRunId}`}
+                  className="text-lg text-dark-dim hover:text-dark-highlight font-mono lowercase tracking-wider transition-colors flex items-center"
+                  title="Every word of this run as a transaction in Etherlink sub-blocks"
+                >
+                  <i className="fa-solid fa-cubes h-4 w-4" />
+                  <span className="ml-1">explorer</span>
+                </Link>
+              )}
             </div>
 
             {/* Social Sharing */}
@@ -2370,6 +3528,75 @@ Can you beat Etherlink's instant confirmations?`;
             </motion.div>
           </motion.div>
         )}
+        {!showOverlay && showCustomPanel && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm overflow-hidden"
+            onClick={() => setShowCustomPanel(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.3 }}
+              className="w-full max-w-2xl rounded-lg bg-dark-kbd p-8 shadow-2xl border border-dark-dim/20 mx-4"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <CustomTextPanel
+                initialText={customText ?? ""}
+                onStart={(text) => {
+                  setShowCustomPanel(false);
+                  setDailyEnabled(false);
+                  // Same text again doesn't change state, so restart explicitly
+                  if (text === customText) {
+                    initGame();
+                  } else {
+                    setCustomText(text);
+                  }
+                }}
+                onClose={() => setShowCustomPanel(false)}
+              />
+            </motion.div>
+          </motion.div>
+        )}
+        {!showOverlay && showRoomPanel && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm overflow-hidden"
+            onClick={() => setShowRoomPanel(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              transition={{ duration: 0.3 }}
+              className="w-full max-w-xl rounded-lg bg-dark-kbd p-8 shadow-2xl border border-dark-dim/20 mx-4"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <RaceRoomPanel
+                room={roomSnapshot}
+                playerName={playerName}
+                gameMode={gameMode}
+                error={raceRoom.error}
+                initialCode={roomInviteCode}
+                onCreate={() => raceRoom.createRoom(gameMode)}
+                onJoin={(code) => raceRoom.joinRoom(code)}
+                onStart={() => raceRoom.startRace()}
+                onLeave={() => {
+                  roomStartsAtRef.current = null;
+                  raceRoom.leaveRoom();
+                }}
+                onClose={() => setShowRoomPanel(false)}
+              />
+            </motion.div>
+          </motion.div>
+        )}
       </AnimatePresence>
     </div>
   );
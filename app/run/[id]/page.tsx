@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { motion } from "framer-motion";
+import { getChains, getRunDetail } from "../../../lib/scores";
+import { DEFAULT_CHAINS, getChain, type Chain } from "../../../lib/chains";
+import { getRunTransactions, shortenHash } from "../../../lib/block-explorer";
+import type { RunDetail } from "../../../lib/types";
+import Footer from "../../../components/Footer";
+import {
+  SUB_BLOCK_SPEED_MS,
+  getGameModeLabel,
+  getModifiersLabel,
+} from "../../../lib/constants";
+
+// Summary cards above the transaction list
+const getOverview = (run: RunDetail, transactions: ReturnType<typeof getRunTransactions>) => {
+  const blocks = new Set(transactions.map(({ block }) => block)).size;
+  const averageLatency =
+    transactions.reduce((sum, { latency_ms }) => sum + latency_ms, 0) / Math.max(transactions.length, 1);
+  return [
+    { label: "transactions", value: `${transactions.length}` },
+    { label: "blocks", value: `${blocks}` },
+    { label: "avg latency", value: `${averageLatency.toFixed(0)}ms` },
+    { label: "score", value: run.score.toFixed(2) },
+    { label: "wpm", value: run.wpm.toFixed(1) },
+    { label: "accuracy", value: `${run.accuracy.toFixed(1)}%` },
+  ];
+};
+
+export default function RunExplorerPage() {
+  const { id } = useParams<{ id: string }>();
+  const [run, setRun] = useState<RunDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [chains, setChains] = useState<Chain[]>(DEFAULT_CHAINS);
+
+  useEffect(() => {
+    const fetchRun = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await getRunDetail(id);
+      if (fetchError) {
+        setError(fetchError);
+        setRun(null);
+      } else {
+        setRun(data);
+      }
+      setLoading(false);
+    };
+
+    fetchRun();
+  }, [id]);
+
+  useEffect(() => {
+    getChains().then(setChains);
+  }, []);
+
+  const transactions = useMemo(
+    () =>
+      run?.prompt && run.keystrokes
+        ? getRunTransactions(run.id, run.prompt, run.keystrokes, run.modifiers)
+        : [],
+    [run]
+  );
+
+  return (
+    <div className="flex h-screen flex-col bg-dark-bg text-dark-main font-sans overflow-y-auto">
+      <header className="p-6">
+        <nav className="flex items-center text-xl">
+          <div className="flex items-center space-x-3">
+            <Link href="/" className="flex items-center space-x-2 text-dark-highlight">
+              <i className="fa fa-keyboard-o h-6 w-6" />
+              <span className="text-lg font-semibold font-nfs">Proof of Speed</span>
+            </Link>
+            <span className="text-dark-dim text-sm">/ run</span>
+          </div>
+        </nav>
+        <div className="mt-2 flex items-center space-x-3">
+          <div className="h-6 w-6" />
+          <Link
+            href="/"
+            className="flex items-center space-x-2 text-sm text-dark-dim hover:text-dark-main font-mono lowercase tracking-wider"
+          >
+            <i className="fa fa-arrow-left h-4 w-4" />
+            <span>back to game</span>
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex flex-1 flex-col items-center px-6 pb-10">
+        <div className="w-full max-w-3xl">
+          <div className="mb-6 flex items-center space-x-3">
+            <i className="fa-solid fa-cubes h-6 w-6 text-dark-highlight" />
+            <h1 className="text-2xl font-semibold font-sedgwick">run explorer</h1>
+          </div>
+
+          {loading ? (
+            <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 p-8 text-center text-dark-dim font-mono">
+              <i className="fa fa-spinner fa-spin h-6 w-6 mx-auto mb-2" />
+              <div>Loading run...</div>
+            </div>
+          ) : error || !run ? (
+            <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 p-8 text-center text-dark-error font-mono">
+              <div className="mb-2">Error loading run</div>
+              <div className="text-sm text-dark-dim">{error}</div>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 rounded-lg border border-dark-kbd bg-dark-kbd/40 p-4 font-mono text-sm">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <span className="text-dark-main">{run.player_name}</span>
+                  <span className="text-xs text-dark-dim">{new Date(run.finished_at).toLocaleString()}</span>
+                </div>
+                <div className="mt-1 text-xs text-dark-dim">
+                  {[
+                    getGameModeLabel(run.game_mode),
+                    getModifiersLabel(run.modifiers),
+                    `raced ${getChain(chains, run.pacer_chain).name}`,
+                    run.rank,
+                  ]
+                    .filter(Boolean)
+                    .join(", ")}
+                </div>
+                <div className="mt-4 grid grid-cols-3 gap-4 sm:grid-cols-6">
+                  {getOverview(run, transactions).map((stat) => (
+                    <div key={stat.label}>
+                      <div className="text-xs uppercase tracking-widest text-dark-dim">{stat.label}</div>
+                      <div className="text-lg text-dark-highlight">{stat.value}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {run.prompt === null ? (
+                <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 p-8 text-center text-sm text-dark-dim font-mono">
+                  transactions of today&apos;s daily challenge are revealed once the day is over
+                </div>
+              ) : (
+                <>
+                  <div className="mb-3 text-sm text-dark-dim font-mono">
+                    every word is a transaction, confirmed in Etherlink&apos;s {SUB_BLOCK_SPEED_MS}ms sub-blocks
+                  </div>
+                  <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40">
+                    <div className="grid grid-cols-[minmax(110px,140px)_80px_1fr_auto_auto] gap-3 border-b border-dark-kbd px-4 py-3 text-xs font-mono uppercase tracking-widest text-dark-dim">
+                      <div className="text-left">txn hash</div>
+                      <div className="text-left">block</div>
+                      <div className="text-left">word</div>
+                      <div className="text-right">latency</div>
+                      <div className="text-right">status</div>
+                    </div>
+                    <div className="divide-y divide-dark-kbd">
+                      {transactions.map((transaction, idx) => (
+                        <motion.div
+                          key={transaction.hash}
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                          transition={{ duration: 0.15, delay: Math.min(idx * 0.02, 1) }}
+                          className="grid grid-cols-[minmax(110px,140px)_80px_1fr_auto_auto] gap-3 px-4 py-2 text-sm font-mono"
+                        >
+                          <div className="text-left text-dark-highlight" title={transaction.hash}>
+                            {shortenHash(transaction.hash)}
+                          </div>
+                          <div className="text-left text-dark-dim">#{transaction.block}</div>
+                          <div className="text-left text-dark-main truncate">{transaction.word}</div>
+                          <div className="text-right text-dark-main">{transaction.latency_ms.toFixed(0)}ms</div>
+                          <div
+                            className={`text-right ${
+                              transaction.status === "success" ? "text-dark-highlight" : "text-dark-error"
+                            }`}
+                          >
+                            {transaction.status}
+                          </div>
+                        </motion.div>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
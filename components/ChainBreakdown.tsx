@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import type { Chain } from "../lib/chains";
+
+type BreakdownSortKey = "ms" | "chainTime" | "blocks" | "margin";
+
+type ChainBreakdownProps = {
+  chains: Chain[];
+  letters: number; // letters typed in the run
+  durationMs: number;
+  pacerChain: string; // highlighted, the chain the run raced
+};
+
+const COLUMNS: { key: BreakdownSortKey; label: string; title: string }[] = [
+  { key: "ms", label: "block time", title: "Time between two blocks" },
+  { key: "chainTime", label: "to confirm", title: "How long the chain takes to confirm your letters, one per block" },
+  { key: "blocks", label: "blocks", title: "Blocks the chain produced while you typed" },
+  { key: "margin", label: "your margin", title: "How much sooner you finished than the chain" },
+];
+
+// Block times run from milliseconds to hours, so durations pick their own unit
+function formatDuration(ms: number): string {
+  const abs = Math.abs(ms);
+  if (abs < 1000) return `${ms.toFixed(0)}ms`;
+  if (abs < 60 * 1000) return `${(ms / 1000).toFixed(2)}s`;
+  if (abs < 60 * 60 * 1000) return `${(ms / 60000).toFixed(1)}min`;
+  return `${(ms / 3600000).toFixed(1)}h`;
+}
+
+/**
+ * Every chain of the registry against the run: time to confirm the same letters at one per block,
+ * blocks produced meanwhile and the player's margin, sortable by any column
+ */
+export default function ChainBreakdown({ chains, letters, durationMs, pacerChain }: ChainBreakdownProps) {
+  const [sortBy, setSortBy] = useState<BreakdownSortKey>("ms");
+  const [ascending, setAscending] = useState(false);
+
+  const rows = chains
+    .map((chain) => {
+      const chainTime = letters * chain.ms;
+      return {
+        chain,
+        ms: chain.ms,
+        chainTime,
+        blocks: Math.floor(durationMs / chain.ms),
+        margin: chainTime - durationMs,
+      };
+    })
+    .sort((a, b) => (ascending ? a[sortBy] - b[sortBy] : b[sortBy] - a[sortBy]));
+
+  const handleSort = (key: BreakdownSortKey) => {
+    if (key === sortBy) {
+      setAscending((prev) => !prev);
+    } else {
+      setSortBy(key);
+      setAscending(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto mt-10 w-full max-w-3xl font-mono">
+      <div className="mb-2 text-lg text-dark-dim text-left">you vs every chain</div>
+      <div className="rounded-lg border border-dark-kbd bg-dark-kbd/40 text-sm">
+        <div className="grid grid-cols-[1fr_repeat(4,minmax(0,110px))] gap-3 border-b border-dark-kbd px-4 py-2 text-xs uppercase tracking-widest text-dark-dim">
+          <div className="text-left">chain</div>
+          {COLUMNS.map((column) => (
+            <button
+              key={column.key}
+              type="button"
+              onClick={() => handleSort(column.key)}
+              title={column.title}
+              className={`text-right uppercase tracking-widest transition-colors ${
+                sortBy === column.key ? "text-dark-highlight" : "hover:text-dark-main"
+              }`}
+            >
+              {column.label}
+              {sortBy === column.key && (
+                <i className={`fa ${ascending ? "fa-caret-up" : "fa-caret-down"} ml-1`} />
+              )}
+            </button>
+          ))}
+        </div>
+        <div className="divide-y divide-dark-kbd">
+          {rows.map(({ chain, chainTime, blocks, margin }) => (
+            <div
+              key={chain.key}
+              className={`grid grid-cols-[1fr_repeat(4,minmax(0,110px))] gap-3 px-4 py-2 ${
+                chain.key === pacerChain ? "bg-dark-kbd" : ""
+              }`}
+            >
+              <div className="flex items-center gap-2 text-left">
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: chain.color }} />
+                <span className="text-dark-main">{chain.name}</span>
+                {chain.key === pacerChain && <span className="text-xs text-dark-dim">pacer</span>}
+              </div>
+              <div className="text-right text-dark-dim">{chain.displayTime ?? formatDuration(chain.ms)}</div>
+              <div className="text-right text-dark-main">{formatDuration(chainTime)}</div>
+              <div className="text-right text-dark-main">{blocks.toLocaleString()}</div>
+              <div className={`text-right ${margin > 0 ? "text-dark-highlight" : "text-dark-error"}`}>
+                {margin > 0 ? "+" : "-"}
+                {formatDuration(Math.abs(margin))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Chain } from "../lib/chains";
+
+export type GradientStop = {
+  color: string;
+  offset: number; // 0-100
+};
+
+type ChainRaceProps = {
+  playerName: string;
+  caretTimeline: { timestamp: number; index: number }[]; // the player's caret over the run
+  letters: number;
+  durationMs: number;
+  chains: Chain[];
+  gradientStops: GradientStop[]; // the rank bar gradient, revealed as each lane fills
+  onClose: () => void;
+};
+
+const WIDTH = 800;
+const LANE_HEIGHT = 32;
+const PADDING = { top: 36, right: 90, bottom: 16, left: 130 };
+// The race keeps running a little after the player finishes so the last lanes settle
+const END_HOLD_MS = 1200;
+const VIDEO_FPS = 30;
+
+const TRACK_WIDTH = WIDTH - PADDING.left - PADDING.right;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+/**
+ * Lane per chain racing the player's real caret timing, drawn on a canvas so it can be recorded to video
+ */
+export default function ChainRace({
+  playerName,
+  caretTimeline,
+  letters,
+  durationMs,
+  chains,
+  gradientStops,
+  onClose,
+}: ChainRaceProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const [replayKey, setReplayKey] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [recording, setRecording] = useState(false);
+
+  const totalMs = durationMs + END_HOLD_MS;
+  const height = PADDING.top + (chains.length + 1) * LANE_HEIGHT + PADDING.bottom;
+  const canRecord =
+    typeof window !== "undefined" &&
+    typeof MediaRecorder !== "undefined" &&
+    typeof HTMLCanvasElement.prototype.captureStream === "function";
+
+  const getPlayerProgress = useCallback(
+    (elapsed: number) => {
+      let index = 0;
+      for (const point of caretTimeline) {
+        if (point.timestamp > elapsed) break;
+        index = point.index;
+      }
+      return elapsed >= durationMs ? 1 : Math.min(index / Math.max(letters, 1), 1);
+    },
+    [caretTimeline, durationMs, letters]
+  );
+
+  const draw = useCallback(
+    (elapsed: number) => {
+      const context = canvasRef.current?.getContext("2d");
+      if (!context) return;
+
+      context.fillStyle = "#323437";
+      context.fillRect(0, 0, WIDTH, height);
+      context.font = "13px monospace";
+      context.textBaseline = "middle";
+
+      const gradient = context.createLinearGradient(PADDING.left, 0, PADDING.left + TRACK_WIDTH, 0);
+      gradientStops.forEach((stop) => gradient.addColorStop(stop.offset / 100, stop.color));
+
+      context.fillStyle = "#646669";
+      context.textAlign = "right";
+      context.fillText(formatSeconds(Math.min(elapsed, durationMs)), WIDTH - 12, PADDING.top / 2);
+
+      const lanes = [
+        { name: `@${playerName}`, color: "#e2b714", progress: getPlayerProgress(elapsed), finishMs: durationMs },
+        ...chains.map((chain) => {
+          const finishMs = letters * chain.ms;
+          return { name: chain.name, color: chain.color, progress: Math.min(elapsed / finishMs, 1), finishMs };
+        }),
+      ];
+
+      lanes.forEach((lane, index) => {
+        const y = PADDING.top + index * LANE_HEIGHT + LANE_HEIGHT / 2;
+        const headX = PADDING.left + lane.progress * TRACK_WIDTH;
+
+        context.textAlign = "right";
+        context.fillStyle = index === 0 ? "#e2b714" : "#d1d0c5";
+        context.fillText(lane.name, PADDING.left - 12, y);
+
+        context.fillStyle = "#2c2e31";
+        context.fillRect(PADDING.left, y - 3, TRACK_WIDTH, 6);
+        context.fillStyle = gradient;
+        context.fillRect(PADDING.left, y - 3, headX - PADDING.left, 6);
+
+        context.beginPath();
+        context.arc(headX, y, 6, 0, Math.PI * 2);
+        context.fillStyle = lane.color;
+        context.fill();
+
+        context.textAlign = "left";
+        context.fillStyle = "#646669";
+        context.fillText(
+          lane.progress >= 1 ? formatSeconds(lane.finishMs) : `${Math.round(lane.progress * 100)}%`,
+          PADDING.left + TRACK_WIDTH + 14,
+          y
+        );
+      });
+    },
+    [chains, durationMs, getPlayerProgress, gradientStops, height, letters, playerName]
+  );
+
+  // Play from the start on mount and whenever a replay or recording restarts it
+  useEffect(() => {
+    const startedAt = performance.now();
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      draw(Math.min(elapsed, totalMs));
+      if (elapsed < totalMs) {
+        frameRef.current = requestAnimationFrame(tick);
+      } else {
+        frameRef.current = null;
+        setFinished(true);
+      }
+    };
+    frameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [replayKey, draw, totalMs]);
+
+  // The recording stops once the replay it started has played out
+  useEffect(() => {
+    if (finished && recorderRef.current?.state === "recording") recorderRef.current.stop();
+  }, [finished]);
+
+  // Closing the results mid-recording drops the video and releases the canvas stream
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorder.onstop = null;
+      if (recorder.state === "recording") recorder.stop();
+      recorder.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const restart = () => {
+    setFinished(false);
+    setReplayKey((prev) => prev + 1);
+  };
+
+  const handleSkip = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    draw(totalMs);
+    setFinished(true);
+  };
+
+  const handleRecord = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || recording) return;
+    const mimeType = ["video/webm;codecs=vp9", "video/webm", "video/mp4"].find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    );
+    const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS), mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      recorderRef.current = null;
+      recorder.stream.getTracks().forEach((track) => track.stop());
+      setRecording(false);
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `proof-of-speed-race.${recorder.mimeType.includes("mp4") ? "mp4" : "webm"}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      // Revoking right after the click can cancel the download in some browsers
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+    restart();
+  };
+
+  return (
+    <div className="mx-auto mt-10 w-full max-w-3xl font-mono">
+      <div className="mb-2 flex items-center justify-between text-sm">
+        <span className="text-lg text-dark-dim">chain race replay</span>
+        <div className="flex items-center space-x-4 text-dark-dim">
+          {!finished && !recording && (
+            <button type="button" onClick={handleSkip} className="lowercase tracking-wider hover:text-dark-highlight transition-colors">
+              <i className="fa-solid fa-forward h-4 w-4" /> skip
+            </button>
+          )}
+          {finished && (
+            <button
+              type="button"
+              onClick={restart}
+              className="lowercase tracking-wider hover:text-dark-highlight transition-colors"
+            >
+              <i className="fa-solid fa-rotate-left h-4 w-4" /> replay
+            </button>
+          )}
+          {canRecord && (
+            <button
+              type="button"
+              onClick={handleRecord}
+              disabled={recording}
+              className="lowercase tracking-wider hover:text-dark-highlight transition-colors disabled:text-dark-highlight"
+            >
+              <i className="fa-solid fa-video h-4 w-4" /> {recording ? "recording..." : "save video"}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={recording}
+            className="lowercase tracking-wider hover:text-dark-highlight transition-colors disabled:opacity-50"
+          >
+            <i className="fa-solid fa-xmark h-4 w-4" /> close
+          </button>
+        </div>
+      </div>
+      <canvas ref={canvasRef} width={WIDTH} height={height} className="w-full rounded-lg" />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_CUSTOM_TEXT_LENGTH,
+  deleteSnippet,
+  getSavedSnippets,
+  normalizeCustomText,
+  saveSnippet,
+  type CustomTextSnippet,
+} from "../lib/custom-text";
+
+type CustomTextPanelProps = {
+  initialText?: string;
+  onStart: (text: string) => void;
+  onClose: () => void;
+};
+
+export default function CustomTextPanel({ initialText = "", onStart, onClose }: CustomTextPanelProps) {
+  const [text, setText] = useState(initialText);
+  // The panel only opens after mount, so localStorage is available
+  const [snippets, setSnippets] = useState<CustomTextSnippet[]>(() => getSavedSnippets());
+
+  const normalized = normalizeCustomText(text);
+
+  return (
+    <div className="font-mono">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-dark-highlight">Custom Text</h2>
+        <button
+          onClick={onClose}
+          className="text-dark-dim hover:text-dark-highlight transition-colors"
+          title="Close"
+        >
+          <i className="fa-solid fa-times h-4 w-4" />
+        </button>
+      </div>
+      <div className="mb-4 text-sm text-dark-dim">
+        Practice on any text. Line breaks are typed with enter. Custom runs are unranked and never saved.
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste or type your text here"
+        maxLength={MAX_CUSTOM_TEXT_LENGTH}
+        rows={8}
+        autoFocus
+        className="w-full resize-none rounded-md border-2 border-dark-dim/50 bg-dark-bg p-3 text-sm text-dark-main placeholder:text-dark-dim focus:outline-none focus:border-dark-highlight"
+      />
+      <div className="mt-1 text-right text-xs text-dark-dim">
+        {text.length}/{MAX_CUSTOM_TEXT_LENGTH}
+      </div>
+
+      <div className="mt-4 flex items-center gap-4">
+        <button
+          onClick={() => onStart(normalized)}
+          disabled={!normalized}
+          className="rounded-md bg-dark-highlight py-2 px-4 text-sm font-bold text-black transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:hover:scale-100"
+          style={{ backgroundColor: "#39ff9c" }}
+        >
+          Start typing
+        </button>
+        <button
+          onClick={() => setSnippets(saveSnippet(text))}
+          disabled={!normalized}
+          className="flex items-center gap-2 text-sm text-dark-dim hover:text-dark-highlight transition-colors disabled:opacity-50"
+        >
+          <i className="fa-solid fa-bookmark h-4 w-4" />
+          <span>save snippet</span>
+        </button>
+      </div>
+
+      {snippets.length > 0 && (
+        <div className="mt-6">
+          <div className="mb-2 text-xs uppercase tracking-widest text-dark-dim">saved snippets</div>
+          <ul className="max-h-48 space-y-1 overflow-y-auto">
+            {snippets.map((snippet) => (
+              <li key={snippet.id} className="flex items-center gap-3 text-sm">
+                <button
+                  onClick={() => setText(snippet.text)}
+                  className="flex-grow truncate text-left text-dark-main hover:text-dark-highlight transition-colors"
+                  title={snippet.text}
+                >
+                  {snippet.title}
+                </button>
+                <button
+                  onClick={() => setSnippets(deleteSnippet(snippet.id))}
+                  className="text-dark-dim hover:text-dark-error transition-colors"
+                  title="Delete snippet"
+                >
+                  <i className="fa-solid fa-trash h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
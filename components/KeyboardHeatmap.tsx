@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import {
+  getAverageLatency,
+  getErrorRate,
+  type KeyStat,
+  type KeyStats,
+} from "../lib/key-stats";
+
+const KEYBOARD_ROWS = [
+  ["1", "2", "3", "4", "5", "6", "7", "8", "9", "0", "-"],
+  ["q", "w", "e", "r", "t", "y", "u", "i", "o", "p", "(", ")"],
+  ["a", "s", "d", "f", "g", "h", "j", "k", "l", ";", "'"],
+  ["z", "x", "c", "v", "b", "n", "m", ",", ".", "/", "?"],
+];
+
+// Error rate at which a key is fully colored
+const MAX_ERROR_RATE = 0.2;
+// Keys need a few presses before their colors mean anything
+const MIN_PRESSES = 3;
+
+type HeatmapView = "run" | "history";
+type HeatmapMetric = "errors" | "latency";
+
+type KeyboardHeatmapProps = {
+  run: KeyStats;
+  history: KeyStats;
+};
+
+function getIntensity(
+  stat: KeyStat | undefined,
+  metric: HeatmapMetric,
+  medianLatency: number | null
+): number {
+  if (!stat || stat.presses < MIN_PRESSES) return 0;
+  if (metric === "errors") return Math.min(getErrorRate(stat) / MAX_ERROR_RATE, 1);
+  const latency = getAverageLatency(stat);
+  if (latency === null || !medianLatency) return 0;
+  // Keys at the median are neutral, keys twice as slow are fully colored
+  return Math.min(Math.max(latency / medianLatency - 1, 0), 1);
+}
+
+function getKeyColor(intensity: number): string {
+  return intensity > 0 ? `rgba(226, 183, 20, ${0.15 + intensity * 0.75})` : "#2c2e31";
+}
+
+function getMedianLatency(stats: KeyStats): number | null {
+  const latencies = Object.values(stats.keys)
+    .filter((stat) => stat.presses >= MIN_PRESSES)
+    .map((stat) => stat.total_ms / stat.presses)
+    .sort((a, b) => a - b);
+  return latencies.length > 0 ? latencies[Math.floor(latencies.length / 2)] : null;
+}
+
+function formatKeyTitle(key: string, stat: KeyStat | undefined): string {
+  if (!stat) return `${key}: not typed`;
+  const latency = getAverageLatency(stat);
+  return `${key}: ${stat.errors}/${stat.presses} missed (${(getErrorRate(stat) * 100).toFixed(0)}%), ${
+    latency === null ? "-" : latency.toFixed(0)
+  }ms avg`;
+}
+
+/**
+ * On-screen keyboard colored by per-key error rate or press latency, for this run or all runs
+ */
+export default function KeyboardHeatmap({ run, history }: KeyboardHeatmapProps) {
+  const [view, setView] = useState<HeatmapView>("run");
+  const [metric, setMetric] = useState<HeatmapMetric>("errors");
+
+  const stats = view === "run" ? run : history;
+  const medianLatency = getMedianLatency(stats);
+
+  // The worst bigrams, so a fumbled "th" or "ie" stands out even when each key looks fine alone
+  const worstBigrams = Object.entries(stats.bigrams)
+    .filter(([, stat]) => stat.presses >= MIN_PRESSES)
+    .map(([bigram, stat]) => ({
+      bigram,
+      stat,
+      value: metric === "errors" ? getErrorRate(stat) : getAverageLatency(stat) ?? 0,
+    }))
+    .filter((entry) => entry.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 5);
+
+  const toggleClass = (active: boolean) =>
+    `transition-colors ${active ? "text-dark-highlight" : "text-dark-dim hover:text-dark-main"}`;
+
+  return (
+    <div className="mx-auto mt-10 w-full max-w-3xl font-mono">
+      <div className="mb-3 flex items-center justify-between text-sm">
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => setView("run")} className={toggleClass(view === "run")}>
+            this run
+          </button>
+          <button
+            type="button"
+            onClick={() => setView("history")}
+            className={toggleClass(view === "history")}
+          >
+            all runs ({history.runs})
+          </button>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setMetric("errors")}
+            className={toggleClass(metric === "errors")}
+          >
+            errors
+          </button>
+          <button
+            type="button"
+            onClick={() => setMetric("latency")}
+            className={toggleClass(metric === "latency")}
+          >
+            latency
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center gap-1">
+        {KEYBOARD_ROWS.map((row, rowIndex) => (
+          <div key={rowIndex} className="flex gap-1" style={{ marginLeft: `${rowIndex * 0.75}rem` }}>
+            {row.map((key) => {
+              const stat = stats.keys[key];
+              const intensity = getIntensity(stat, metric, medianLatency);
+              return (
+                <div
+                  key={key}
+                  title={formatKeyTitle(key, stat)}
+                  className={`flex h-9 w-9 items-center justify-center rounded text-sm shadow-[0_2px_0_0] shadow-dark-kbd-shadow ${
+                    stat ? "text-dark-main" : "text-dark-dim"
+                  }`}
+                  style={{ backgroundColor: getKeyColor(intensity) }}
+                >
+                  {key}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        <div
+          title={formatKeyTitle("space", stats.keys[" "])}
+          className="mt-1 h-9 w-64 rounded shadow-[0_2px_0_0] shadow-dark-kbd-shadow"
+          style={{
+            backgroundColor: getKeyColor(getIntensity(stats.keys[" "], metric, medianLatency)),
+          }}
+        />
+      </div>
+
+      {worstBigrams.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-sm text-dark-dim">
+          <span>{metric === "errors" ? "most missed" : "slowest"} pairs</span>
+          {worstBigrams.map(({ bigram, stat, value }) => (
+            <span key={bigram} title={formatKeyTitle(bigram, stat)}>
+              <span className="text-dark-main">{bigram}</span>{" "}
+              {metric === "errors" ? `${(value * 100).toFixed(0)}%` : `${value.toFixed(0)}ms`}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
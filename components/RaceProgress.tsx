@@ -0,0 +1,87 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type { RoomSnapshot } from "../lib/types";
+
+const PODIUM_ICONS = ["🥇", "🥈", "🥉"];
+
+type RaceProgressProps = {
+  room: RoomSnapshot;
+  playerName: string;
+};
+
+/**
+ * Live progress bar per player in the room's current race
+ */
+export function RaceProgress({ room, playerName }: RaceProgressProps) {
+  return (
+    <div className="mb-6 w-full max-w-3xl space-y-1 font-mono text-sm">
+      {room.players.map((player) => {
+        const finisher = room.finishers.find(
+          (entry) => entry.player_name === player.player_name
+        );
+        const isSelf = player.player_name === playerName;
+
+        return (
+          <div key={player.player_name} className="flex items-center gap-3">
+            <span
+              className={`w-32 truncate text-right ${
+                isSelf ? "text-dark-highlight" : "text-dark-dim"
+              }`}
+            >
+              @{player.player_name}
+            </span>
+            <div className="relative h-2 flex-grow overflow-hidden rounded bg-dark-kbd">
+              <motion.div
+                className={`absolute inset-y-0 left-0 ${
+                  isSelf ? "bg-dark-highlight" : "bg-dark-main"
+                }`}
+                animate={{ width: `${player.progress * 100}%` }}
+                transition={{ duration: 0.2, ease: "linear" }}
+              />
+            </div>
+            <span className="w-16 text-dark-dim" style={{ fontVariantNumeric: "tabular-nums" }}>
+              {finisher ? `${finisher.time.toFixed(2)}s` : `${Math.round(player.progress * 100)}%`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Final standings of the room's current race, filled in as validated results arrive
+ */
+export function RacePodium({ room, playerName }: RaceProgressProps) {
+  const pending = room.players.filter(
+    (player) => !room.finishers.some((entry) => entry.player_name === player.player_name)
+  );
+
+  return (
+    <div className="mx-auto mb-10 w-full max-w-md font-mono">
+      <div className="mb-3 text-lg text-dark-dim">Room {room.code} results</div>
+      <ol className="space-y-1">
+        {room.finishers.map((finisher) => (
+          <li
+            key={finisher.player_name}
+            className={`flex items-center justify-between ${
+              finisher.player_name === playerName ? "text-dark-highlight" : "text-dark-main"
+            }`}
+          >
+            <span>
+              {PODIUM_ICONS[finisher.place - 1] ?? `${finisher.place}.`} @{finisher.player_name}
+            </span>
+            <span style={{ fontVariantNumeric: "tabular-nums" }}>{finisher.time.toFixed(2)}s</span>
+          </li>
+        ))}
+        {pending.map((player) => (
+          <li key={player.player_name} className="flex items-center justify-between text-dark-dim">
+            <span>@{player.player_name}</span>
+            <span>still typing…</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
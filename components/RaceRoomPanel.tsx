@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { MIN_ROOM_PLAYERS, getGameModeLabel, type GameMode } from "../lib/constants";
+import type { RoomSnapshot } from "../lib/types";
+
+type RaceRoomPanelProps = {
+  room: RoomSnapshot | null;
+  playerName: string;
+  gameMode: GameMode;
+  error: string | null;
+  initialCode?: string;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+  onClose: () => void;
+};
+
+export default function RaceRoomPanel({
+  room,
+  playerName,
+  gameMode,
+  error,
+  initialCode = "",
+  onCreate,
+  onJoin,
+  onStart,
+  onLeave,
+  onClose,
+}: RaceRoomPanelProps) {
+  const [code, setCode] = useState(initialCode);
+  const [copied, setCopied] = useState(false);
+
+  const isHost = room?.players.some(
+    (player) => player.player_name === playerName && player.is_host
+  );
+  const canStart = (room?.players.length ?? 0) >= MIN_ROOM_PLAYERS;
+
+  const handleCopyLink = async () => {
+    if (!room) return;
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/?room=${room.code}`
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Failed to copy to clipboard
+    }
+  };
+
+  return (
+    <div className="font-mono">
+      <div className="mb-6 flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-dark-highlight">Race Room</h2>
+        <button
+          onClick={onClose}
+          className="text-dark-dim hover:text-dark-highlight transition-colors"
+          title="Close"
+        >
+          <i className="fa-solid fa-times h-4 w-4" />
+        </button>
+      </div>
+
+      {!room ? (
+        <div className="space-y-6">
+          <div>
+            <div className="mb-2 text-sm text-dark-dim">
+              Start a room and share its code. Everyone races the same prompt.
+            </div>
+            <button
+              onClick={onCreate}
+              disabled={gameMode.kind !== "words"}
+              className="rounded-md bg-dark-highlight py-2 px-4 text-sm font-bold text-black transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:hover:scale-100"
+              style={{ backgroundColor: "#39ff9c" }}
+            >
+              Create room ({getGameModeLabel(gameMode)})
+            </button>
+            {gameMode.kind !== "words" && (
+              <div className="mt-2 text-xs text-dark-dim">
+                Rooms race to the end of the prompt, pick a word mode first.
+              </div>
+            )}
+          </div>
+
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (code.trim()) onJoin(code);
+            }}
+          >
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={6}
+              className="w-40 rounded-md border-2 border-dark-dim/50 bg-dark-bg p-2 text-lg font-bold uppercase tracking-widest text-dark-main placeholder:font-normal placeholder:normal-case placeholder:tracking-normal focus:outline-none focus:border-dark-highlight"
+            />
+            <button
+              type="submit"
+              className="rounded-md border border-dark-dim/30 py-2 px-4 text-sm text-dark-main hover:text-dark-highlight transition-colors"
+            >
+              Join
+            </button>
+          </form>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center gap-4">
+            <div>
+              <div className="text-xs text-dark-dim">room code</div>
+              <div className="text-3xl font-bold tracking-widest text-dark-main">
+                {room.code}
+              </div>
+            </div>
+            <button
+              onClick={handleCopyLink}
+              className="flex items-center gap-2 text-sm text-dark-dim hover:text-dark-highlight transition-colors"
+            >
+              <i className={`fa-solid ${copied ? "fa-check" : "fa-link"} h-4 w-4`} />
+              <span>{copied ? "copied" : "copy link"}</span>
+            </button>
+            <div className="ml-auto text-sm text-dark-dim">
+              {getGameModeLabel(room.game_mode)}
+            </div>
+          </div>
+
+          <ul className="space-y-1">
+            {room.players.map((player) => (
+              <li
+                key={player.player_name}
+                className={`flex items-center gap-2 ${
+                  player.player_name === playerName ? "text-dark-highlight" : "text-dark-main"
+                }`}
+              >
+                <span>@{player.player_name}</span>
+                {player.is_host && (
+                  <i className="fa-solid fa-crown h-3 w-3 text-dark-dim" title="Host" />
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-4">
+            {isHost ? (
+              <button
+                onClick={onStart}
+                disabled={!canStart}
+                className="rounded-md bg-dark-highlight py-2 px-4 text-sm font-bold text-black transition-transform hover:scale-[1.02] disabled:opacity-50 disabled:hover:scale-100"
+                style={{ backgroundColor: "#39ff9c" }}
+              >
+                {room.race_number > 0 ? "Race again" : "Start race"}
+              </button>
+            ) : (
+              <div className="text-sm text-dark-dim">Waiting for the host to start…</div>
+            )}
+            {isHost && !canStart && (
+              <div className="text-xs text-dark-dim">
+                Needs at least {MIN_ROOM_PLAYERS} players
+              </div>
+            )}
+            <button
+              onClick={onLeave}
+              className="ml-auto text-sm text-dark-dim hover:text-dark-error transition-colors"
+            >
+              Leave room
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="mt-4 text-sm text-dark-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import type { SpeedTimeline } from "../lib/keystroke-replay";
+import type { Chain } from "../lib/chains";
+
+type SpeedChartProps = {
+  timeline: SpeedTimeline;
+  chains: Chain[];
+  pacerMs: number;
+};
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 80, bottom: 24, left: 40 };
+// ms/letter range of the y axis, on a log scale with faster speeds at the top
+const MIN_MS = 25;
+const MAX_MS = 2500;
+
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const getY = (ms: number) => {
+  const clamped = Math.max(MIN_MS, Math.min(MAX_MS, ms));
+  const normalized = (Math.log10(clamped) - Math.log10(MIN_MS)) / (Math.log10(MAX_MS) - Math.log10(MIN_MS));
+  return PADDING.top + normalized * PLOT_HEIGHT;
+};
+
+/**
+ * Per-word speed across a run, with error markers, the pacer speed and chain block-time bands
+ */
+export default function SpeedChart({ timeline, chains, pacerMs }: SpeedChartProps) {
+  const duration = Math.max(timeline.duration_ms, 1);
+  const getX = (timestamp: number) => PADDING.left + (timestamp / duration) * PLOT_WIDTH;
+
+  // Fastest chain first, so each band spans from its block time down to the next slower chain's
+  const bands = [...chains]
+    .sort((a, b) => a.ms - b.ms)
+    .filter((chain) => chain.ms >= MIN_MS && chain.ms <= MAX_MS);
+
+  const line = timeline.points
+    .map((point) => `${getX(point.timestamp).toFixed(1)},${getY(point.ms_per_letter).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <div className="mx-auto mt-10 w-full max-w-3xl font-mono">
+      <div className="mb-2 text-lg text-dark-dim text-left">speed over time</div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Speed over time">
+        {bands.map((chain, index) => {
+          const y = getY(chain.ms);
+          const nextY = getY(bands[index + 1]?.ms ?? MAX_MS);
+          return (
+            <g key={chain.key}>
+              <rect
+                x={PADDING.left}
+                y={y}
+                width={PLOT_WIDTH}
+                height={Math.max(nextY - y, 0)}
+                fill={chain.color}
+                opacity={0.08}
+              />
+              <line
+                x1={PADDING.left}
+                x2={PADDING.left + PLOT_WIDTH}
+                y1={y}
+                y2={y}
+                stroke={chain.color}
+                strokeOpacity={0.4}
+                strokeDasharray="2 4"
+              />
+              <text x={PADDING.left + PLOT_WIDTH + 6} y={y + 4} fontSize={10} fill={chain.color}>
+                {chain.name}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Pacer reference */}
+        <line
+          x1={PADDING.left}
+          x2={PADDING.left + PLOT_WIDTH}
+          y1={getY(pacerMs)}
+          y2={getY(pacerMs)}
+          stroke="#38ff9c"
+          strokeWidth={1}
+          strokeDasharray="6 4"
+        />
+        <text x={PADDING.left - 6} y={getY(pacerMs) + 4} fontSize={10} fill="#38ff9c" textAnchor="end">
+          pacer
+        </text>
+
+        {/* Error markers along the time axis */}
+        {timeline.errors.map((timestamp, index) => (
+          <line
+            key={index}
+            x1={getX(timestamp)}
+            x2={getX(timestamp)}
+            y1={PADDING.top}
+            y2={PADDING.top + PLOT_HEIGHT}
+            stroke="#e2b714"
+            strokeOpacity={0.5}
+          />
+        ))}
+
+        {timeline.points.length > 1 && (
+          <polyline points={line} fill="none" stroke="#d1d0c5" strokeWidth={2} strokeLinejoin="round" />
+        )}
+        {timeline.points.map((point, index) => (
+          <circle key={index} cx={getX(point.timestamp)} cy={getY(point.ms_per_letter)} r={2.5} fill="#d1d0c5">
+            <title>{`${(point.timestamp / 1000).toFixed(1)}s: ${point.ms_per_letter.toFixed(0)}ms/letter`}</title>
+          </circle>
+        ))}
+
+        {/* Time axis */}
+        <line
+          x1={PADDING.left}
+          x2={PADDING.left + PLOT_WIDTH}
+          y1={PADDING.top + PLOT_HEIGHT}
+          y2={PADDING.top + PLOT_HEIGHT}
+          stroke="#646669"
+        />
+        {[0, 0.5, 1].map((fraction) => (
+          <text
+            key={fraction}
+            x={PADDING.left + fraction * PLOT_WIDTH}
+            y={HEIGHT - 6}
+            fontSize={10}
+            fill="#646669"
+            textAnchor={fraction === 0 ? "start" : fraction === 1 ? "end" : "middle"}
+          >
+            {((fraction * duration) / 1000).toFixed(1)}s
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { getDefinition } from "../lib/dictionaries/web3";
+
+type VocabularyListProps = {
+  runWords: string[];
+  todayWords: string[];
+};
+
+/**
+ * Web3 vocabulary typed today with definitions, words from the last run highlighted
+ */
+export default function VocabularyList({ runWords, todayWords }: VocabularyListProps) {
+  if (todayWords.length === 0) return null;
+
+  return (
+    <div className="mx-auto mt-10 w-full max-w-3xl font-mono">
+      <div className="mb-3 text-lg text-dark-dim text-left">
+        words you typed today ({todayWords.length})
+      </div>
+      <dl className="max-h-64 space-y-2 overflow-y-auto pr-2 text-sm">
+        {todayWords.map((word) => (
+          <div key={word} className="flex gap-4">
+            <dt
+              className={`w-40 shrink-0 font-bold ${
+                runWords.includes(word) ? "text-dark-highlight" : "text-dark-main"
+              }`}
+            >
+              {word}
+            </dt>
+            <dd className="text-dark-dim">{getDefinition(word)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// lib/block-explorer.ts
+// A finished run seen as a chain: every typed word is a transaction that lands in an Etherlink
+// sub-block, listed on the /run/[id] explorer page
+import type { KeystrokeEvent } from "./types";
+import { NO_MODIFIERS, SUB_BLOCK_SPEED_MS, type PromptModifiers } from "./constants";
+import { getCaretTimeline, isDeletion, isWordBoundary } from "./keystroke-replay";
+
+export type RunTransaction = {
+  hash: string; // pseudo hash, stable for a given run and word
+  word: string;
+  index: number; // letter index of the word in the prompt
+  submitted_at: number; // ms since the run started, when the first letter of the word was typed
+  block: number; // sub-block the word landed in, counted from the start of the run
+  confirmed_at: number; // ms when that sub-block closed
+  latency_ms: number; // confirmed_at - submitted_at
+  status: "success" | "failed"; // failed when a letter of the word was left wrong
+};
+
+// FNV-1a, 32 bits, with murmur3's finalizer so rounds with nearby seeds don't look alike
+const hash32 = (input: string, seed: number) => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+/**
+ * 0x-prefixed 64 hex digit string that looks like a transaction hash, derived from the input
+ */
+export function getPseudoHash(input: string): string {
+  let hex = "";
+  for (let round = 0; round < 8; round++) {
+    hex += hash32(input, 0x811c9dc5 + round * 0x9e3779b9).toString(16).padStart(8, "0");
+  }
+  return `0x${hex}`;
+}
+
+/**
+ * Shorten a hash the way explorers do, e.g. 0x3f2a…9c1d
+ */
+export function shortenHash(hash: string): string {
+  return `${hash.slice(0, 6)}…${hash.slice(-4)}`;
+}
+
+/**
+ * Words of the prompt that were typed in full, as transactions in the order they landed;
+ * a word lands when the caret first moves past its trailing space (or the end of the prompt)
+ */
+export function getRunTransactions(
+  runId: string,
+  prompt: string,
+  keystrokes: KeystrokeEvent[],
+  modifiers: PromptModifiers = NO_MODIFIERS
+): RunTransaction[] {
+  const timeline = getCaretTimeline(keystrokes, prompt, modifiers);
+
+  // Final correctness of each letter: a deletion clears everything from where the caret ended up
+  const wrong = new Set<number>();
+  keystrokes.forEach((keystroke) => {
+    if (isDeletion(keystroke.key)) {
+      wrong.forEach((index) => {
+        if (index >= keystroke.index) wrong.delete(index);
+      });
+    } else if (keystroke.correct) {
+      // Under stop on error the right key follows the wrong one on the same letter
+      wrong.delete(keystroke.index);
+    } else if (!isWordBoundary(prompt[keystroke.index])) {
+      wrong.add(keystroke.index);
+    }
+  });
+
+  const transactions: RunTransaction[] = [];
+  let wordStart = 0;
+  while (wordStart < prompt.length) {
+    let wordEnd = wordStart;
+    while (wordEnd < prompt.length && !isWordBoundary(prompt[wordEnd])) wordEnd++;
+    const landsAt = Math.min(wordEnd + 1, prompt.length);
+
+    const entered = timeline.find(({ index }) => index > wordStart);
+    const landed = timeline.find(({ index }) => index >= landsAt);
+    if (entered && landed) {
+      // The first key of a run is typed at 0ms, which is block 1
+      const block = Math.floor(landed.timestamp / SUB_BLOCK_SPEED_MS) + 1;
+      const confirmedAt = block * SUB_BLOCK_SPEED_MS;
+      let failed = false;
+      for (let index = wordStart; index < wordEnd; index++) {
+        if (wrong.has(index)) failed = true;
+      }
+      const word = prompt.slice(wordStart, wordEnd);
+      transactions.push({
+        hash: getPseudoHash(`${runId}:${wordStart}:${word}`),
+        word,
+        index: wordStart,
+        submitted_at: entered.timestamp,
+        block,
+        confirmed_at: confirmedAt,
+        latency_ms: confirmedAt - entered.timestamp,
+        status: failed ? "failed" : "success",
+      });
+    }
+    wordStart = wordEnd + 1;
+  }
+
+  return transactions.sort((a, b) => a.block - b.block || a.index - b.index);
+}
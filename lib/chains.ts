@@ -0,0 +1,126 @@
+// lib/chains.ts
+// Chain registry: block times, icons and colors behind the pacer, the rank bar, the speed chart
+// and the "as fast as" label. Entries live in the chains table so admins can add or edit chains;
+// DEFAULT_CHAINS is used until it loads and whenever it can't be read
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SUB_BLOCK_SPEED_MS } from "./constants";
+
+export type Chain = {
+  key: string; // stable id, stored as the pacer_chain of runs
+  name: string;
+  ms: number; // block time, which the pacer types one letter per
+  icon: string | null; // file in /public/crypto-icons, or "etherlink" for the Etherlink logo
+  color: string; // brand color, used by the gradient bar, chart bands and pacer tint
+  displayTime: string | null; // shown instead of the block time, e.g. "10mins"
+};
+
+// Row of the chains table
+type ChainRow = {
+  key: string;
+  name: string;
+  block_time_ms: number;
+  icon: string | null;
+  color: string;
+  display_time: string | null;
+};
+
+const CHAIN_COLUMNS = "key, name, block_time_ms, icon, color, display_time";
+
+// Slowest first, the order of the rank bar
+export const DEFAULT_CHAINS: Chain[] = [
+  { key: "bitcoin", name: "Bitcoin", ms: 600000, icon: "btc", color: "#F7931A", displayTime: "10mins" },
+  { key: "ethereum", name: "Ethereum", ms: 12000, icon: "eth", color: "#627EEA", displayTime: null },
+  { key: "polygon", name: "Polygon", ms: 2000, icon: "matic", color: "#6F41D8", displayTime: null },
+  { key: "eth-l2s", name: "ETH L2s", ms: 1000, icon: "eth", color: "#627EEA", displayTime: null },
+  { key: "solana", name: "Solana", ms: 400, icon: "sol", color: "#66F9A1", displayTime: null },
+  { key: "base", name: "Base", ms: 200, icon: "base", color: "#0052FF", displayTime: null },
+  { key: "etherlink", name: "Etherlink", ms: SUB_BLOCK_SPEED_MS, icon: "etherlink", color: "#A6E000", displayTime: null },
+];
+
+export const DEFAULT_PACER_CHAIN = "base";
+
+const sortChains = (chains: Chain[]) => [...chains].sort((a, b) => b.ms - a.ms);
+
+/**
+ * Load the registry from the chains table, slowest first; falls back to DEFAULT_CHAINS
+ */
+export async function fetchChains(client: Pick<SupabaseClient, "from">): Promise<Chain[]> {
+  try {
+    const { data, error } = await client.from("chains").select(CHAIN_COLUMNS);
+    if (error || !data) return DEFAULT_CHAINS;
+
+    const chains = (data as ChainRow[])
+      .filter((row) => row.key && row.name && row.block_time_ms > 0)
+      .map((row) => ({
+        key: row.key,
+        name: row.name,
+        ms: row.block_time_ms,
+        icon: row.icon,
+        color: row.color,
+        displayTime: row.display_time,
+      }));
+    return chains.length > 0 ? sortChains(chains) : DEFAULT_CHAINS;
+  } catch {
+    return DEFAULT_CHAINS;
+  }
+}
+
+export function isValidChainKey(chains: Chain[], key: unknown): key is string {
+  return chains.some((chain) => chain.key === key);
+}
+
+/**
+ * Chain by key; runs raced at a chain that was since removed fall back to the default pacer
+ */
+export function getChain(chains: Chain[], key: string): Chain {
+  return (
+    chains.find((chain) => chain.key === key) ??
+    chains.find((chain) => chain.key === DEFAULT_PACER_CHAIN) ??
+    DEFAULT_CHAINS.find((chain) => chain.key === DEFAULT_PACER_CHAIN)!
+  );
+}
+
+/**
+ * The fastest chain whose block time the player kept up with at one letter per block,
+ * or the slowest chain when they were slower than all of them
+ */
+export function getSpeedComparison(chains: Chain[], msPerLetter: number): Chain {
+  const sorted = sortChains(chains);
+  const matched = sorted.filter((chain) => msPerLetter <= chain.ms);
+  return matched[matched.length - 1] ?? sorted[0];
+}
+
+/**
+ * Position (0-100) of each chain on the rank bar, evenly spaced from slowest to fastest
+ */
+export function getChainPositions(chains: Chain[]): (Chain & { position: number })[] {
+  const sorted = sortChains(chains);
+  return sorted.map((chain, index) => ({
+    ...chain,
+    position: sorted.length > 1 ? (index / (sorted.length - 1)) * 100 : 100,
+  }));
+}
+
+/**
+ * Position (0-100) of a speed on the rank bar, log-interpolated between the chains around it
+ */
+export function getSpeedPosition(chains: Chain[], msPerLetter: number): number {
+  const positions = getChainPositions(chains);
+  if (positions.length === 0) return 0;
+  const slowest = positions[0];
+  const fastest = positions[positions.length - 1];
+  if (msPerLetter >= slowest.ms) return slowest.position;
+  if (msPerLetter <= fastest.ms) return fastest.position;
+
+  for (let i = 0; i < positions.length - 1; i++) {
+    const upper = positions[i];
+    const lower = positions[i + 1];
+    if (msPerLetter >= lower.ms && msPerLetter <= upper.ms) {
+      if (upper.ms === lower.ms) return lower.position;
+      const segmentNormalized =
+        (Math.log10(upper.ms) - Math.log10(msPerLetter)) / (Math.log10(upper.ms) - Math.log10(lower.ms));
+      return upper.position + segmentNormalized * (lower.position - upper.position);
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,162 @@
+// lib/code-snippets.ts
+// Code mode prompts: short real contracts, typed line by line with Enter and without their indentation
+import type { CodeLanguage } from "./constants";
+
+export type CodeSnippet = {
+  id: string;
+  language: CodeLanguage;
+  title: string;
+  code: string;
+};
+
+export const CODE_SNIPPETS: CodeSnippet[] = [
+  {
+    id: "sol-counter",
+    language: "solidity",
+    title: "Counter",
+    code: `contract Counter {
+    uint256 public count;
+
+    function increment() external {
+        count += 1;
+    }
+}`,
+  },
+  {
+    id: "sol-ownable",
+    language: "solidity",
+    title: "Ownable",
+    code: `contract Ownable {
+    address public owner;
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+}`,
+  },
+  {
+    id: "sol-transfer",
+    language: "solidity",
+    title: "ERC-20 transfer",
+    code: `function transfer(address to, uint256 amount) public returns (bool) {
+    require(balanceOf[msg.sender] >= amount, "balance too low");
+    balanceOf[msg.sender] -= amount;
+    balanceOf[to] += amount;
+    emit Transfer(msg.sender, to, amount);
+    return true;
+}`,
+  },
+  {
+    id: "sol-vault",
+    language: "solidity",
+    title: "Vault withdraw",
+    code: `function withdraw(uint256 amount) external {
+    uint256 balance = deposits[msg.sender];
+    if (amount > balance) revert InsufficientBalance(balance, amount);
+    deposits[msg.sender] = balance - amount;
+    (bool ok, ) = msg.sender.call{value: amount}("");
+    require(ok, "transfer failed");
+}`,
+  },
+  {
+    id: "sol-mapping",
+    language: "solidity",
+    title: "Allowances",
+    code: `mapping(address => mapping(address => uint256)) public allowance;
+
+function approve(address spender, uint256 amount) external returns (bool) {
+    allowance[msg.sender][spender] = amount;
+    emit Approval(msg.sender, spender, amount);
+    return true;
+}`,
+  },
+  {
+    id: "tz-counter",
+    language: "michelson",
+    title: "Counter",
+    code: `parameter (or (int %increment) (int %decrement));
+storage int;
+code { UNPAIR;
+       IF_LEFT { ADD } { SWAP; SUB };
+       NIL operation;
+       PAIR }`,
+  },
+  {
+    id: "tz-store",
+    language: "michelson",
+    title: "Store value",
+    code: `parameter nat;
+storage nat;
+code { CAR;
+       NIL operation;
+       PAIR }`,
+  },
+  {
+    id: "tz-owner",
+    language: "michelson",
+    title: "Owner only",
+    code: `parameter string;
+storage (pair address string);
+code { UNPAIR;
+       SWAP;
+       CAR;
+       DUP;
+       SENDER;
+       ASSERT_CMPEQ;
+       PAIR;
+       NIL operation;
+       PAIR }`,
+  },
+  {
+    id: "tz-transfer",
+    language: "michelson",
+    title: "Forward tez",
+    code: `parameter (contract unit);
+storage unit;
+code { CAR;
+       AMOUNT;
+       UNIT;
+       TRANSFER_TOKENS;
+       NIL operation;
+       SWAP;
+       CONS;
+       UNIT;
+       SWAP;
+       PAIR }`,
+  },
+];
+
+const getLines = (code: string) =>
+  code
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0);
+
+/**
+ * The typed text of a snippet: blank lines dropped and each line's indentation removed,
+ * so Enter moves straight to the first character of the next line
+ */
+export function getCodePrompt(code: string): string {
+  return getLines(code)
+    .map((line) => line.trimStart())
+    .join("\n");
+}
+
+/**
+ * Indentation (in characters) of each line of a code prompt, for display only;
+ * null when the prompt isn't a code snippet
+ */
+export function getCodeIndents(prompt: string): number[] | null {
+  const snippet = CODE_SNIPPETS.find((candidate) => getCodePrompt(candidate.code) === prompt);
+  if (!snippet) return null;
+  return getLines(snippet.code).map((line) => line.length - line.trimStart().length);
+}
+
+export function getCodeSnippets(language: CodeLanguage): CodeSnippet[] {
+  return CODE_SNIPPETS.filter((snippet) => snippet.language === language);
+}
@@ -1,7 +1,206 @@
 // Shared game constants
-export const GAME_MODES = [15, 30] as const;
-export type GameMode = typeof GAME_MODES[number];
+export const WORD_COUNTS = [15, 30] as const;
+export const TIME_LIMITS = [15, 30, 60] as const;
+export const CODE_LANGUAGES = ["solidity", "michelson"] as const;
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number];
+
+// Word and code modes end when the prompt is finished, time modes when the clock runs out
+export type GameMode =
+  | { kind: "words"; count: number }
+  | { kind: "time"; seconds: number }
+  | { kind: "code"; language: CodeLanguage };
+export type GameModeKind = GameMode["kind"];
+
+export const GAME_MODES: GameMode[] = [
+  ...WORD_COUNTS.map((count): GameMode => ({ kind: "words", count })),
+  ...TIME_LIMITS.map((seconds): GameMode => ({ kind: "time", seconds })),
+  ...CODE_LANGUAGES.map((language): GameMode => ({ kind: "code", language })),
+];
+
+export const DEFAULT_GAME_MODE = GAME_MODES[0];
+
+// The daily challenge is always played on the same mode so scores are comparable
+export const DAILY_GAME_MODE: GameMode = { kind: "words", count: 30 };
+
+// Prompt modifiers; every combination is its own leaderboard bucket
+// "strict" (stop on error) and "confidence" (no backspace) change the rules rather than the words
+export type PromptModifier = "punctuation" | "capitals" | "numbers" | "strict" | "confidence";
+export type PromptModifiers = Record<PromptModifier, boolean>;
+
+export const PROMPT_MODIFIERS: { key: PromptModifier; label: string; icon: string }[] = [
+  { key: "punctuation", label: "punctuation", icon: "fa-at" },
+  { key: "capitals", label: "capitals", icon: "fa-font" },
+  { key: "numbers", label: "numbers", icon: "fa-1" },
+  { key: "strict", label: "stop on error", icon: "fa-hand" },
+  { key: "confidence", label: "confidence", icon: "fa-ban" },
+];
+
+export const NO_MODIFIERS: PromptModifiers = {
+  punctuation: false,
+  capitals: false,
+  numbers: false,
+  strict: false,
+  confidence: false,
+};
+
+// Word list languages; each language is its own leaderboard bucket
+export type Language = "en" | "fr" | "de" | "es" | "pt" | "ja";
+
+export const LANGUAGES: { key: Language; label: string }[] = [
+  { key: "en", label: "english" },
+  { key: "fr", label: "français" },
+  { key: "de", label: "deutsch" },
+  { key: "es", label: "español" },
+  { key: "pt", label: "português" },
+  { key: "ja", label: "日本語 (romaji)" },
+];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+// Word lists; the web3 vocabulary is english only and is its own leaderboard bucket
+export type WordList = "common" | "web3";
+
+export const WORD_LISTS: { key: WordList; label: string; icon: string }[] = [
+  { key: "common", label: "common words", icon: "fa-book" },
+  { key: "web3", label: "web3 vocabulary", icon: "fa-cube" },
+];
+
+export const DEFAULT_WORD_LIST: WordList = "common";
+
+// Phones and tablets type on a touch keyboard and rank in their own bucket
+export type Device = "desktop" | "mobile";
+
+export const DEVICES: { key: Device; label: string; icon: string }[] = [
+  { key: "desktop", label: "desktop", icon: "fa-keyboard" },
+  { key: "mobile", label: "mobile", icon: "fa-mobile-screen" },
+];
+
+export const DEFAULT_DEVICE: Device = "desktop";
+
+// Fastest letters per second a run can be submitted at
+export const MAX_LPS = 60;
+
+// Prompt length issued for timed modes: even at MAX_LPS with nothing but two-letter words
+// (three characters with the space) the clock runs out before the prompt does
+export const TIME_MODE_WORDS_PER_SECOND = MAX_LPS / 3;
+
+// Race rooms: players per room
+export const MIN_ROOM_PLAYERS = 2;
+export const MAX_ROOM_PLAYERS = 8;
 
 // Sub-block speed in milliseconds (Etherlink's actual speed)
 export const SUB_BLOCK_SPEED_MS = 50;
 
+// Canonical form stored in the modifiers column: enabled modifiers joined with "+", "" for none
+export function getModifiersKey(modifiers: PromptModifiers): string {
+  return PROMPT_MODIFIERS.filter(({ key }) => modifiers[key])
+    .map(({ key }) => key)
+    .join("+");
+}
+
+export function parseModifiersKey(key: string | null | undefined): PromptModifiers {
+  const enabled = (key ?? "").split("+");
+  return {
+    punctuation: enabled.includes("punctuation"),
+    capitals: enabled.includes("capitals"),
+    numbers: enabled.includes("numbers"),
+    strict: enabled.includes("strict"),
+    confidence: enabled.includes("confidence"),
+  };
+}
+
+// Under stop on error and confidence a mistake can never be corrected
+export function forbidsCorrections(modifiers: PromptModifiers): boolean {
+  return modifiers.strict || modifiers.confidence;
+}
+
+export function getModifiersLabel(modifiers: PromptModifiers): string {
+  return PROMPT_MODIFIERS.filter(({ key }) => modifiers[key])
+    .map(({ label }) => label)
+    .join(", ");
+}
+
+export function isValidModifiers(modifiers: unknown): modifiers is PromptModifiers {
+  if (!modifiers || typeof modifiers !== "object") return false;
+  return PROMPT_MODIFIERS.every(
+    ({ key }) => typeof (modifiers as PromptModifiers)[key] === "boolean"
+  );
+}
+
+export function isValidLanguage(language: unknown): language is Language {
+  return LANGUAGES.some(({ key }) => key === language);
+}
+
+export function getLanguageLabel(language: Language): string {
+  return LANGUAGES.find(({ key }) => key === language)?.label ?? language;
+}
+
+export function isValidWordList(wordList: unknown): wordList is WordList {
+  return WORD_LISTS.some(({ key }) => key === wordList);
+}
+
+export function getWordListLabel(wordList: WordList): string {
+  return WORD_LISTS.find(({ key }) => key === wordList)?.label ?? wordList;
+}
+
+export function isValidDevice(device: unknown): device is Device {
+  return DEVICES.some(({ key }) => key === device);
+}
+
+// The server assigns the bucket from the request's user agent; the client uses the same check
+// to pick which rankings to show
+export function getDeviceFromUserAgent(userAgent: string): Device {
+  return /Android|iPhone|iPad|iPod|Mobile/i.test(userAgent) ? "mobile" : "desktop";
+}
+
+// Numeric part of a mode, stored in the game_mode column
+// (word count, seconds, or the code language's index in CODE_LANGUAGES)
+export function getGameModeValue(mode: GameMode): number {
+  if (mode.kind === "code") return CODE_LANGUAGES.indexOf(mode.language);
+  return mode.kind === "words" ? mode.count : mode.seconds;
+}
+
+// Stable key for a mode, used in localStorage keys and React keys
+// Word modes keep the bare number so existing localStorage entries still match
+export function getGameModeKey(mode: GameMode): string {
+  if (mode.kind === "code") return `code-${mode.language}`;
+  return mode.kind === "words" ? `${mode.count}` : `time-${mode.seconds}`;
+}
+
+export function getGameModeLabel(mode: GameMode): string {
+  if (mode.kind === "code") return mode.language;
+  return mode.kind === "words" ? `${mode.count} words` : `${mode.seconds}s`;
+}
+
+// Inverse of getGameModeKey, used for ?mode= links; null for unknown modes
+export function parseGameModeKey(key: string): GameMode | null {
+  return GAME_MODES.find((mode) => getGameModeKey(mode) === key) ?? null;
+}
+
+export function isSameGameMode(a: GameMode, b: GameMode): boolean {
+  return a.kind === b.kind && getGameModeValue(a) === getGameModeValue(b);
+}
+
+// Rebuild a mode from its stored columns; rows from before timed modes have no kind
+export function toGameMode(value: number, kind?: GameModeKind | null): GameMode {
+  if (kind === "code") return { kind: "code", language: CODE_LANGUAGES[value] ?? CODE_LANGUAGES[0] };
+  return kind === "time" ? { kind: "time", seconds: value } : { kind: "words", count: value };
+}
+
+// PostgREST `or` filter for a leaderboard bucket column. Rows saved before the column existed
+// hold NULL and belong to its default bucket. Values are quoted so "" (no modifiers) still parses
+export function getBucketFilter(column: string, value: string, defaultValue: string): string {
+  return value === defaultValue
+    ? `${column}.eq."${value}",${column}.is.null`
+    : `${column}.eq."${value}"`;
+}
+
+export function isValidGameMode(mode: unknown): mode is GameMode {
+  if (!mode || typeof mode !== "object") return false;
+  const candidate = mode as GameMode;
+  return GAME_MODES.some(
+    (validMode) =>
+      validMode.kind === candidate.kind &&
+      getGameModeValue(validMode) === getGameModeValue(candidate)
+  );
+}
@@ -0,0 +1,76 @@
+// lib/custom-text.ts
+// Custom text practice: user-supplied passages, typed with the same engine but never submitted
+
+export const MAX_CUSTOM_TEXT_LENGTH = 5000;
+
+export type CustomTextSnippet = {
+  id: string;
+  title: string;
+  text: string;
+};
+
+const SNIPPETS_KEY = "custom_text_snippets";
+
+/**
+ * Normalize pasted text into a typeable prompt:
+ * line breaks are kept (typed with Enter), runs of spaces and tabs become a single space,
+ * and blank lines and leading/trailing whitespace are dropped
+ */
+export function normalizeCustomText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n")
+    .slice(0, MAX_CUSTOM_TEXT_LENGTH);
+}
+
+/**
+ * Get saved snippets from localStorage
+ */
+export function getSavedSnippets(): CustomTextSnippet[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(SNIPPETS_KEY);
+    const snippets = stored ? JSON.parse(stored) : [];
+    return Array.isArray(snippets) ? snippets : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeSnippets(snippets: CustomTextSnippet[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(SNIPPETS_KEY, JSON.stringify(snippets));
+  } catch {
+    // Silently fail if localStorage is not available
+  }
+}
+
+/**
+ * Save a snippet to localStorage, titled after its first words
+ */
+export function saveSnippet(text: string): CustomTextSnippet[] {
+  const normalized = normalizeCustomText(text);
+  if (!normalized) return getSavedSnippets();
+
+  const snippet: CustomTextSnippet = {
+    id: `${Date.now()}`,
+    title: normalized.split(/\s+/).slice(0, 6).join(" "),
+    text: normalized,
+  };
+  const snippets = [snippet, ...getSavedSnippets().filter((saved) => saved.text !== normalized)];
+  storeSnippets(snippets);
+  return snippets;
+}
+
+/**
+ * Remove a saved snippet from localStorage
+ */
+export function deleteSnippet(id: string): CustomTextSnippet[] {
+  const snippets = getSavedSnippets().filter((snippet) => snippet.id !== id);
+  storeSnippets(snippets);
+  return snippets;
+}
@@ -0,0 +1,25 @@
+// lib/dictionaries/french.ts
+const french = [
+  "le", "de", "un", "être", "et", "à", "il", "avoir", "ne", "je",
+  "son", "que", "se", "qui", "ce", "dans", "en", "du", "elle", "au",
+  "pour", "pas", "vous", "par", "sur", "faire", "plus", "dire", "me", "on",
+  "mon", "lui", "nous", "comme", "mais", "pouvoir", "avec", "tout", "y", "aller",
+  "voir", "bien", "où", "sans", "tu", "ou", "leur", "homme", "si", "deux",
+  "mari", "moi", "vouloir", "te", "femme", "venir", "quand", "grand", "celui", "notre",
+  "devoir", "là", "jour", "prendre", "même", "votre", "rien", "petit", "encore", "aussi",
+  "quelque", "dont", "tous", "mer", "trouver", "donner", "temps", "ça", "peu", "enfant",
+  "falloir", "heure", "non", "savoir", "ton", "premier", "année", "très", "main", "chose",
+  "passer", "après", "chez", "monde", "alors", "vie", "croire", "déjà", "entendre", "parler",
+  "porte", "regarder", "fois", "rester", "moins", "seul", "nouveau", "mettre", "aimer", "penser",
+  "demander", "pendant", "avant", "tête", "trop", "depuis", "laisser", "sentir", "vieux", "toujours",
+  "jeune", "bon", "père", "mère", "maison", "nuit", "ville", "vrai", "corps", "suivre",
+  "monsieur", "sortir", "comprendre", "attendre", "entrer", "dernier", "arriver", "beau", "pays", "mot",
+  "connaître", "comment", "devenir", "fin", "yeux", "moment", "perdre", "fille", "ami", "chercher",
+  "âme", "pied", "été", "école", "rue", "vivre", "français", "idée", "écrire", "lire",
+  "tenir", "ensemble", "mourir", "rendre", "ouvrir", "blanc", "noir", "besoin", "long", "question",
+  "reprendre", "nom", "jeter", "côté", "compte", "fort", "ciel", "terre", "eau", "feu",
+  "lumière", "travail", "route", "pièce", "histoire", "argent", "voix", "bras", "raison", "forêt",
+  "chaîne", "bloc", "vitesse", "rapide", "clavier", "écran", "réseau", "jeton", "frère", "neveu"
+];
+
+export default french;
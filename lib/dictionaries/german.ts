@@ -0,0 +1,25 @@
+// lib/dictionaries/german.ts
+const german = [
+  "der", "die", "und", "in", "den", "von", "zu", "das", "mit", "sich",
+  "des", "auf", "für", "ist", "im", "dem", "nicht", "ein", "eine", "als",
+  "auch", "es", "an", "werden", "aus", "er", "hat", "dass", "sie", "nach",
+  "wird", "bei", "einer", "um", "am", "sind", "noch", "wie", "einem", "über",
+  "einen", "so", "zum", "war", "haben", "nur", "oder", "aber", "vor", "zur",
+  "bis", "mehr", "durch", "man", "sein", "wurde", "sei", "hatte", "kann", "gegen",
+  "vom", "können", "schon", "wenn", "habe", "seine", "ihre", "dann", "unter", "wir",
+  "soll", "ich", "eines", "jahr", "zwei", "jahre", "diese", "wieder", "keine", "seiner",
+  "worden", "will", "zwischen", "immer", "was", "sagte", "gibt", "alle", "diesem", "seit",
+  "muss", "doch", "jetzt", "drei", "neue", "damit", "bereits", "da", "ihr", "seinen",
+  "müssen", "ab", "ihrer", "ohne", "sondern", "selbst", "ersten", "nun", "etwa", "heute",
+  "weil", "ihm", "menschen", "deutschland", "anderen", "rund", "ihren", "viel", "mal", "weiter",
+  "große", "größer", "schön", "müde", "früh", "spät", "gemüse", "zurück", "prüfung", "tür",
+  "straße", "grüße", "fuß", "heiß", "weiß", "süß", "schließen", "hören", "gehören", "möglich",
+  "natürlich", "während", "würde", "könnte", "dürfen", "mögen", "öffnen", "schlüssel", "glück", "brücke",
+  "zeit", "tag", "welt", "leben", "hand", "haus", "stadt", "land", "wasser", "arbeit",
+  "kind", "frau", "mann", "freund", "schule", "buch", "wort", "frage", "antwort", "geld",
+  "gehen", "kommen", "sehen", "machen", "sagen", "wissen", "denken", "finden", "geben", "nehmen",
+  "schnell", "langsam", "gut", "klein", "alt", "jung", "neu", "lang", "kurz", "hoch",
+  "kette", "block", "tempo", "tastatur", "netz", "münze", "bäume", "äpfel", "vögel", "übung"
+];
+
+export default german;
@@ -0,0 +1,26 @@
+// lib/dictionaries/japanese-romaji.ts
+// Hepburn romanization without macrons (long vowels are doubled), so it types on any Latin layout
+const japaneseRomaji = [
+  "watashi", "anata", "kare", "kanojo", "watashitachi", "kore", "sore", "are", "koko", "soko",
+  "asoko", "doko", "dare", "nani", "itsu", "naze", "dou", "ikura", "hai", "iie",
+  "arigatou", "sumimasen", "gomennasai", "ohayou", "konnichiwa", "konbanwa", "sayounara", "oyasumi", "onegai", "douzo",
+  "hito", "otoko", "onna", "kodomo", "tomodachi", "kazoku", "chichi", "haha", "ani", "ane",
+  "otouto", "imouto", "sensei", "gakusei", "isha", "kaisha", "shigoto", "gakkou", "daigaku", "eki",
+  "mise", "ie", "heya", "mado", "doa", "tsukue", "isu", "hon", "kami", "pen",
+  "kuruma", "densha", "basu", "hikouki", "fune", "jitensha", "michi", "machi", "kuni", "sekai",
+  "yama", "kawa", "umi", "sora", "ame", "yuki", "kaze", "hana", "ki", "mori",
+  "sakura", "tsuki", "hoshi", "taiyou", "hi", "mizu", "tsuchi", "ishi", "kumo", "kaminari",
+  "asa", "hiru", "yoru", "kyou", "ashita", "kinou", "ima", "mae", "ato", "toki",
+  "jikan", "fun", "byou", "shuu", "getsuyoubi", "toshi", "haru", "natsu", "aki", "fuyu",
+  "taberu", "nomu", "miru", "kiku", "hanasu", "yomu", "kaku", "iku", "kuru", "kaeru",
+  "suru", "aru", "iru", "wakaru", "shiru", "omou", "iu", "matsu", "hashiru", "aruku",
+  "oyogu", "asobu", "yasumu", "hataraku", "benkyou", "oshieru", "narau", "kau", "uru", "tsukuru",
+  "ookii", "chiisai", "atarashii", "furui", "takai", "yasui", "hayai", "osoi", "nagai", "mijikai",
+  "atsui", "samui", "ii", "warui", "tanoshii", "kanashii", "ureshii", "muzukashii", "yasashii", "kirei",
+  "gohan", "pan", "sakana", "niku", "yasai", "kudamono", "ocha", "sake", "sushi", "ramen",
+  "inu", "neko", "tori", "uma", "ushi", "kitsune", "tanuki", "kuma", "saru", "usagi",
+  "kokoro", "yume", "ai", "chikara", "koe", "kotoba", "namae", "tegami", "denwa", "shashin",
+  "kusari", "burokku", "sokudo", "kiiboodo", "nettowaaku", "kaisou", "kakunin", "torihiki", "kyori", "shouri"
+];
+
+export default japaneseRomaji;
@@ -0,0 +1,25 @@
+// lib/dictionaries/portuguese.ts
+const portuguese = [
+  "de", "a", "o", "que", "e", "do", "da", "em", "um", "para",
+  "é", "com", "não", "uma", "os", "no", "se", "na", "por", "mais",
+  "as", "dos", "como", "mas", "foi", "ao", "ele", "das", "tem", "à",
+  "seu", "sua", "ou", "ser", "quando", "muito", "há", "nos", "já", "está",
+  "eu", "também", "só", "pelo", "pela", "até", "isso", "ela", "entre", "era",
+  "depois", "sem", "mesmo", "aos", "ter", "seus", "quem", "nas", "me", "esse",
+  "eles", "estão", "você", "tinha", "foram", "essa", "num", "nem", "suas", "meu",
+  "às", "minha", "têm", "numa", "pelos", "elas", "havia", "seja", "qual", "será",
+  "nós", "tenho", "lhe", "deles", "essas", "esses", "pelas", "este", "fosse", "dele",
+  "tu", "te", "vocês", "vos", "lhes", "meus", "minhas", "teu", "tua", "nosso",
+  "nossa", "nossos", "dela", "delas", "esta", "estes", "estas", "aquele", "aquela", "isto",
+  "aquilo", "estou", "ainda", "estamos", "estava", "fazer", "dizer", "poder", "ir", "ver",
+  "dar", "saber", "querer", "chegar", "passar", "dever", "ficar", "deixar", "parecer", "levar",
+  "tempo", "ano", "dia", "vez", "homem", "coisa", "vida", "mulher", "mundo", "casa",
+  "país", "cidade", "trabalho", "água", "mão", "olho", "coração", "noite", "irmão", "irmã",
+  "pão", "mãe", "então", "ação", "informação", "canção", "avião", "manhã", "função", "razão",
+  "avô", "avó", "língua", "difícil", "fácil", "rápido", "último", "público", "música", "número",
+  "começar", "criança", "preço", "força", "cabeça", "espaço", "lição", "atenção", "opção", "posição",
+  "bom", "grande", "novo", "primeiro", "outro", "pequeno", "próximo", "melhor", "certo", "alto",
+  "cadeia", "bloco", "velocidade", "teclado", "rede", "moeda", "corrente", "confirmação", "transação", "código"
+];
+
+export default portuguese;
@@ -0,0 +1,25 @@
+// lib/dictionaries/spanish.ts
+const spanish = [
+  "de", "la", "que", "el", "en", "y", "a", "los", "se", "del",
+  "las", "un", "por", "con", "no", "una", "su", "para", "es", "al",
+  "lo", "como", "más", "o", "pero", "sus", "le", "ha", "me", "si",
+  "sin", "sobre", "este", "ya", "entre", "cuando", "todo", "esta", "ser", "son",
+  "dos", "también", "fue", "había", "era", "muy", "años", "hasta", "desde", "está",
+  "mi", "porque", "qué", "sólo", "han", "yo", "hay", "vez", "puede", "todos",
+  "así", "nos", "ni", "parte", "tiene", "él", "uno", "donde", "bien", "tiempo",
+  "mismo", "ese", "ahora", "cada", "e", "vida", "otro", "después", "te", "otros",
+  "aunque", "esa", "eso", "hace", "otra", "gobierno", "tan", "durante", "siempre", "día",
+  "tanto", "ella", "tres", "sí", "dijo", "sido", "gran", "país", "según", "menos",
+  "mundo", "año", "antes", "estado", "contra", "sino", "forma", "caso", "nada", "hacer",
+  "general", "estaba", "poco", "estos", "presidente", "mayor", "ante", "unos", "les", "algo",
+  "hacia", "casa", "ellos", "ayer", "hecho", "primera", "mucho", "mientras", "además", "quien",
+  "momento", "millones", "esto", "españa", "hombre", "están", "pues", "hoy", "lugar", "madrid",
+  "nacional", "trabajo", "otras", "mejor", "nuevo", "decir", "algunos", "entonces", "todas", "días",
+  "debe", "política", "cómo", "casi", "toda", "tal", "luego", "pasado", "medio", "estas",
+  "sea", "tenía", "nunca", "poder", "aquí", "ver", "veces", "embargo", "partido", "personas",
+  "grupo", "cuenta", "pueden", "tienen", "misma", "nueva", "cual", "fueron", "mujer", "frente",
+  "niño", "sueño", "mañana", "señor", "corazón", "canción", "rápido", "fácil", "música", "último",
+  "cadena", "bloque", "velocidad", "teclado", "red", "moneda", "pingüino", "acción", "través", "número"
+];
+
+export default spanish;
@@ -0,0 +1,109 @@
+// lib/dictionaries/web3.ts
+// Etherlink and web3 vocabulary; each word carries a short definition shown after the run
+export type VocabularyWord = {
+  word: string;
+  definition: string;
+};
+
+export const WEB3_VOCABULARY: VocabularyWord[] = [
+  { word: "etherlink", definition: "An EVM-compatible layer 2 built as a smart rollup on Tezos, with sub-second confirmations." },
+  { word: "tezos", definition: "A self-amending proof-of-stake blockchain that Etherlink settles to." },
+  { word: "rollup", definition: "A chain that executes transactions offchain and posts them to a layer 1 for security." },
+  { word: "sequencer", definition: "The node that orders incoming transactions into blocks for a rollup." },
+  { word: "calldata", definition: "Read-only input data sent with a transaction or contract call." },
+  { word: "bridge", definition: "A protocol that moves assets or messages between two chains." },
+  { word: "validator", definition: "A participant that checks and attests to blocks in proof of stake." },
+  { word: "baker", definition: "A Tezos validator that produces and endorses blocks." },
+  { word: "delegation", definition: "Lending your staking rights to a validator without giving up custody of your tokens." },
+  { word: "staking", definition: "Locking tokens to help secure a network in exchange for rewards." },
+  { word: "slashing", definition: "Destroying part of a validator's stake as a penalty for misbehaving." },
+  { word: "kernel", definition: "The WebAssembly program that defines how a Tezos smart rollup processes its inbox." },
+  { word: "wasm", definition: "WebAssembly, a portable bytecode format smart rollup kernels are compiled to." },
+  { word: "inbox", definition: "The queue of layer 1 messages a smart rollup reads and executes." },
+  { word: "outbox", definition: "Messages a rollup sends back to layer 1, such as withdrawals." },
+  { word: "preconfirmation", definition: "A fast promise from the sequencer that a transaction will be included." },
+  { word: "subblock", definition: "A slice of a block streamed early so transactions confirm in milliseconds." },
+  { word: "blockchain", definition: "An append-only ledger of blocks, each linked to the previous by its hash." },
+  { word: "block", definition: "A batch of transactions added to the chain together." },
+  { word: "transaction", definition: "A signed instruction that changes the state of the chain." },
+  { word: "wallet", definition: "Software that holds your keys and signs transactions for you." },
+  { word: "gas", definition: "The unit measuring how much computation a transaction uses." },
+  { word: "gwei", definition: "One billionth of an ether, the usual unit for gas prices." },
+  { word: "wei", definition: "The smallest unit of ether, ten to the minus eighteen." },
+  { word: "mutez", definition: "The smallest unit of tez, one millionth of a tez." },
+  { word: "tez", definition: "The native token of Tezos, also called XTZ." },
+  { word: "nonce", definition: "A per-account counter that orders transactions and prevents replays." },
+  { word: "hash", definition: "A fixed-length fingerprint of data; any change produces a different hash." },
+  { word: "merkle", definition: "A tree of hashes that proves an item is in a set without revealing the whole set." },
+  { word: "consensus", definition: "How a network's nodes agree on the next block." },
+  { word: "finality", definition: "The point after which a block can no longer be reverted." },
+  { word: "mempool", definition: "The waiting room of transactions that haven't made it into a block yet." },
+  { word: "oracle", definition: "A service that brings offchain data, like prices, onchain." },
+  { word: "token", definition: "A digital asset issued by a smart contract." },
+  { word: "stablecoin", definition: "A token designed to hold a steady price, usually pegged to a currency." },
+  { word: "nft", definition: "A non-fungible token, a unique item such as art or a ticket." },
+  { word: "dao", definition: "A decentralized autonomous organization governed by token holder votes." },
+  { word: "defi", definition: "Decentralized finance: lending, trading and saving without intermediaries." },
+  { word: "airdrop", definition: "Tokens distributed for free to a set of addresses." },
+  { word: "fork", definition: "A change to a protocol's rules, or a split of the chain into two." },
+  { word: "mainnet", definition: "The production network where tokens have real value." },
+  { word: "testnet", definition: "A practice network for trying things out with worthless tokens." },
+  { word: "faucet", definition: "A site that hands out free testnet tokens." },
+  { word: "explorer", definition: "A website for browsing blocks, transactions and addresses." },
+  { word: "address", definition: "A public identifier that can hold tokens and receive transactions." },
+  { word: "signature", definition: "Proof, made with a private key, that the owner approved a message." },
+  { word: "keypair", definition: "A private key and the public key derived from it." },
+  { word: "mnemonic", definition: "A list of words that encodes a wallet's keys, used to back it up." },
+  { word: "ledger", definition: "A record of balances and transfers; also a popular hardware wallet." },
+  { word: "evm", definition: "The Ethereum Virtual Machine, which runs smart contract bytecode." },
+  { word: "solidity", definition: "The most widely used language for EVM smart contracts." },
+  { word: "michelson", definition: "The stack-based smart contract language of Tezos." },
+  { word: "contract", definition: "A program deployed onchain that anyone can call." },
+  { word: "bytecode", definition: "The compiled form of a contract that the virtual machine executes." },
+  { word: "opcode", definition: "A single virtual machine instruction, such as ADD or SSTORE." },
+  { word: "abi", definition: "The application binary interface describing how to call a contract." },
+  { word: "layer", definition: "A level of the stack; layer 2s build on top of a layer 1." },
+  { word: "sidechain", definition: "A separate chain with its own security, linked to another by a bridge." },
+  { word: "optimistic", definition: "A rollup that assumes results are valid unless someone proves fraud." },
+  { word: "refutation", definition: "The game in which a smart rollup's wrong commitment is challenged and proven false." },
+  { word: "commitment", definition: "A rollup's published claim about its state, checked on layer 1." },
+  { word: "epoch", definition: "A fixed span of blocks used to schedule validators and rewards." },
+  { word: "liquidity", definition: "How easily an asset can be traded without moving its price." },
+  { word: "swap", definition: "Exchanging one token for another, usually through a pool." },
+  { word: "amm", definition: "An automated market maker, which prices trades from pool balances." },
+  { word: "dex", definition: "A decentralized exchange run by smart contracts." },
+  { word: "yield", definition: "The return earned by lending, staking or providing liquidity." },
+  { word: "collateral", definition: "Assets locked to secure a loan." },
+  { word: "governance", definition: "How a protocol's holders propose and vote on changes." },
+  { word: "proposal", definition: "A suggested protocol upgrade put up for a vote." },
+  { word: "quorum", definition: "The minimum participation a vote needs to count." },
+  { word: "multisig", definition: "A wallet that needs several signatures to move funds." },
+  { word: "custody", definition: "Who holds the keys, and therefore control, of the funds." },
+  { word: "relayer", definition: "A service that submits transactions or messages on someone else's behalf." },
+  { word: "indexer", definition: "A service that organizes chain data so it can be queried quickly." },
+  { word: "rpc", definition: "The API endpoint apps use to read from and send transactions to a node." },
+  { word: "node", definition: "A computer that runs the protocol and keeps a copy of the chain." },
+  { word: "snapshot", definition: "A saved copy of chain state used to start a node quickly." },
+  { word: "upgrade", definition: "A change to a protocol or contract after it has launched." },
+  { word: "timelock", definition: "A delay enforced before an action, such as an upgrade, can execute." },
+  { word: "reentrancy", definition: "A bug where a contract is called again before its first call finishes." },
+  { word: "frontrunning", definition: "Jumping ahead of a known pending transaction to profit from it." },
+  { word: "mev", definition: "Maximal extractable value, profit from reordering transactions in a block." },
+  { word: "latency", definition: "The delay between sending a transaction and seeing it confirmed." },
+  { word: "throughput", definition: "How many transactions a network can process per second." },
+  { word: "permissionless", definition: "Open to anyone, with no approval needed to participate." },
+  { word: "decentralization", definition: "Spreading control across many independent participants." },
+  { word: "interoperability", definition: "The ability of different chains to work together." },
+  { word: "withdrawal", definition: "Moving funds out of a rollup back to layer 1." },
+  { word: "deposit", definition: "Moving funds from layer 1 into a rollup." },
+];
+
+const VOCABULARY_DEFINITIONS = new Map(WEB3_VOCABULARY.map(({ word, definition }) => [word, definition]));
+
+export function getDefinition(word: string): string | undefined {
+  return VOCABULARY_DEFINITIONS.get(word.toLowerCase());
+}
+
+const web3 = WEB3_VOCABULARY.map(({ word }) => word);
+
+export default web3;
@@ -0,0 +1,110 @@
+// lib/key-stats.ts
+// Per-key and per-bigram error counts and press latency, per run and across the player's history
+import { isDeletion } from "./keystroke-replay";
+import type { KeystrokeEvent } from "./types";
+
+export type KeyStat = {
+  presses: number; // times the character was the target of a keypress
+  errors: number; // wrong keys pressed while it was the target
+  total_ms: number; // summed time since the previous keypress, for the average latency
+};
+
+export type KeyStats = {
+  keys: Record<string, KeyStat>; // keyed by lowercase target character
+  bigrams: Record<string, KeyStat>; // keyed by the previous and target characters, e.g. "th"
+  runs: number;
+};
+
+export const EMPTY_KEY_STATS: KeyStats = { keys: {}, bigrams: {}, runs: 0 };
+
+function addPress(stats: Record<string, KeyStat>, key: string, correct: boolean, latency: number) {
+  const stat = stats[key] ?? { presses: 0, errors: 0, total_ms: 0 };
+  stat.presses += 1;
+  stat.total_ms += latency;
+  if (!correct) stat.errors += 1;
+  stats[key] = stat;
+}
+
+/**
+ * Attribute every keypress of a run to the character it targeted. Latency is the time since
+ * the previous keypress; the first keypress starts the clock and has none, so it is skipped.
+ */
+export function calculateKeyStats(keystrokes: KeystrokeEvent[], prompt: string): KeyStats {
+  const stats: KeyStats = { keys: {}, bigrams: {}, runs: 1 };
+  let previousTimestamp: number | null = null;
+
+  keystrokes.forEach((keystroke) => {
+    const latency = previousTimestamp === null ? null : keystroke.timestamp - previousTimestamp;
+    previousTimestamp = keystroke.timestamp;
+    if (isDeletion(keystroke.key) || latency === null) return;
+
+    const target = prompt[keystroke.index];
+    if (target === undefined) return;
+    addPress(stats.keys, target.toLowerCase(), keystroke.correct, latency);
+
+    const previous = prompt[keystroke.index - 1];
+    if (previous !== undefined && previous !== " " && target !== " ") {
+      addPress(stats.bigrams, `${previous}${target}`.toLowerCase(), keystroke.correct, latency);
+    }
+  });
+
+  return stats;
+}
+
+function mergeStatMaps(a: Record<string, KeyStat>, b: Record<string, KeyStat>) {
+  const merged: Record<string, KeyStat> = { ...a };
+  Object.entries(b).forEach(([key, stat]) => {
+    const existing = merged[key];
+    merged[key] = existing
+      ? {
+          presses: existing.presses + stat.presses,
+          errors: existing.errors + stat.errors,
+          total_ms: existing.total_ms + stat.total_ms,
+        }
+      : { ...stat };
+  });
+  return merged;
+}
+
+export function mergeKeyStats(a: KeyStats, b: KeyStats): KeyStats {
+  return {
+    keys: mergeStatMaps(a.keys, b.keys),
+    bigrams: mergeStatMaps(a.bigrams, b.bigrams),
+    runs: a.runs + b.runs,
+  };
+}
+
+export function getErrorRate(stat: KeyStat | undefined): number {
+  return stat && stat.presses > 0 ? stat.errors / stat.presses : 0;
+}
+
+export function getAverageLatency(stat: KeyStat | undefined): number | null {
+  return stat && stat.presses > 0 ? stat.total_ms / stat.presses : null;
+}
+
+/**
+ * Get the player's aggregated key stats from localStorage
+ */
+export function getStoredKeyStats(playerName: string): KeyStats {
+  if (typeof window === "undefined") return EMPTY_KEY_STATS;
+  try {
+    const stored = localStorage.getItem(`key_stats_${playerName}`);
+    return stored ? { ...EMPTY_KEY_STATS, ...JSON.parse(stored) } : EMPTY_KEY_STATS;
+  } catch {
+    return EMPTY_KEY_STATS;
+  }
+}
+
+/**
+ * Add a run's key stats to the player's history in localStorage, returning the new totals
+ */
+export function addRunToKeyStats(playerName: string, runStats: KeyStats): KeyStats {
+  const merged = mergeKeyStats(getStoredKeyStats(playerName), runStats);
+  if (typeof window === "undefined") return merged;
+  try {
+    localStorage.setItem(`key_stats_${playerName}`, JSON.stringify(merged));
+  } catch {
+    // Silently fail if localStorage is not available
+  }
+  return merged;
+}
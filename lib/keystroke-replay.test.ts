@@ -0,0 +1,301 @@
+import { describe, expect, it } from "vitest";
+import type { KeystrokeEvent } from "./types";
+import { NO_MODIFIERS, type GameMode, type PromptModifiers } from "./constants";
+import {
+  DELETE_WORD_KEY,
+  MAX_OVERFLOW,
+  getCaretTimeline,
+  getDeleteWordTarget,
+  getNextWordStart,
+  getWordStart,
+  isWordBoundary,
+  replayKeystrokes,
+} from "./keystroke-replay";
+
+const WORDS: GameMode = { kind: "words", count: 15 };
+const STRICT: PromptModifiers = { ...NO_MODIFIERS, strict: true };
+const CONFIDENCE: PromptModifiers = { ...NO_MODIFIERS, confidence: true };
+
+type Input = string | { backspace: true; word?: boolean } | { wait: number };
+
+const BACKSPACE: Input = { backspace: true };
+const DELETE_WORD: Input = { backspace: true, word: true };
+
+/**
+ * Record a run the way typeCharacter and deleteBackward in app/page.tsx log it, one key every
+ * 100ms unless told to wait. Returns the log and the caret position after every logged key.
+ */
+function recordRun(prompt: string, inputs: Input[], modifiers: PromptModifiers = NO_MODIFIERS) {
+  const keystrokes: KeystrokeEvent[] = [];
+  const carets: number[] = [];
+  const overflow = new Map<number, number>();
+  const skipOrigins = new Map<number, number>();
+  let index = 0;
+  let timestamp = 0;
+
+  const log = (key: string, at: number, correct: boolean) => {
+    keystrokes.push({ key, timestamp, index: at, correct });
+  };
+
+  for (const input of inputs) {
+    if (typeof input !== "string" && "wait" in input) {
+      timestamp += input.wait;
+      continue;
+    }
+    timestamp += 100;
+
+    if (typeof input !== "string") {
+      if (modifiers.confidence) continue;
+      const extras = overflow.get(index) ?? 0;
+      const skipOrigin = skipOrigins.get(index);
+      let target = index - 1;
+      if (input.word) {
+        target = getDeleteWordTarget(prompt, index);
+        if (target === index && extras === 0) continue;
+      } else if (extras > 0) {
+        target = index;
+      } else if (skipOrigin !== undefined) {
+        target = skipOrigin;
+      }
+      if (target < 0) continue;
+
+      log(input.word ? DELETE_WORD_KEY : "Backspace", target, false);
+      if (!input.word && extras > 0) {
+        overflow.set(index, extras - 1);
+      } else {
+        for (let erased = target + 1; erased <= index; erased += 1) {
+          overflow.delete(erased);
+          skipOrigins.delete(erased);
+        }
+        index = target;
+      }
+      carets.push(index);
+      continue;
+    }
+
+    const target = prompt[index];
+    const isExtra = !modifiers.strict && isWordBoundary(target) && !isWordBoundary(input);
+    const isSkip = !modifiers.strict && !isWordBoundary(target) && isWordBoundary(input);
+    const extras = overflow.get(index) ?? 0;
+    if (isExtra && extras >= MAX_OVERFLOW) continue;
+    if (isSkip && getWordStart(prompt, index) === index) continue;
+
+    log(input, index, input === target);
+    if (isExtra) {
+      overflow.set(index, extras + 1);
+    } else if (isSkip) {
+      const nextWordStart = getNextWordStart(prompt, index);
+      skipOrigins.set(nextWordStart, index);
+      index = nextWordStart;
+    } else if (input === target || !modifiers.strict) {
+      index += 1;
+    }
+    carets.push(index);
+  }
+
+  return { keystrokes, carets };
+}
+
+const typed = (text: string): Input[] => Array.from(text);
+
+describe("replayKeystrokes", () => {
+  it("scores a clean run", () => {
+    const { keystrokes } = recordRun("go on", typed("go on"));
+    const result = replayKeystrokes(keystrokes, "go on", WORDS);
+
+    expect(result).toMatchObject({
+      valid: true,
+      total_letters: 5,
+      accuracy: 100,
+      time: 0.5,
+      lps: 10,
+      uncorrected_errors: 0,
+      corrected_errors: 0,
+    });
+  });
+
+  it("counts a mistake fixed with Backspace as corrected", () => {
+    const { keystrokes } = recordRun("go on", [..."gx", BACKSPACE, ..."o on"]);
+    const result = replayKeystrokes(keystrokes, "go on", WORDS);
+
+    expect(result).toMatchObject({ valid: true, accuracy: 100, uncorrected_errors: 0, corrected_errors: 1 });
+  });
+
+  it("keeps a mistake left in the text as an error", () => {
+    const { keystrokes } = recordRun("go on", typed("gx on"));
+    const result = replayKeystrokes(keystrokes, "go on", WORDS);
+
+    expect(result).toMatchObject({ valid: true, accuracy: 80, uncorrected_errors: 1, corrected_errors: 0 });
+  });
+
+  it("counts extra letters as errors until they are deleted", () => {
+    const kept = recordRun("go on", typed("goxx on"));
+    expect(replayKeystrokes(kept.keystrokes, "go on", WORDS)).toMatchObject({
+      valid: true,
+      uncorrected_errors: 2,
+    });
+
+    const deleted = recordRun("go on", [..."goxx", BACKSPACE, BACKSPACE, ..." on"]);
+    expect(replayKeystrokes(deleted.keystrokes, "go on", WORDS)).toMatchObject({
+      valid: true,
+      uncorrected_errors: 0,
+      corrected_errors: 2,
+    });
+  });
+
+  it("rejects more extra letters than the client allows", () => {
+    const { keystrokes } = recordRun("go on", typed("go on"));
+    const forged = [
+      ...keystrokes.slice(0, 2),
+      ...Array.from({ length: MAX_OVERFLOW + 1 }, (_, offset) => ({
+        key: "x",
+        timestamp: 200 + offset,
+        index: 2,
+        correct: false,
+      })),
+      ...keystrokes.slice(2).map((keystroke) => ({ ...keystroke, timestamp: keystroke.timestamp + 100 })),
+    ];
+
+    expect(replayKeystrokes(forged, "go on", WORDS)).toMatchObject({ valid: false, error: "Too many extra letters" });
+  });
+
+  it("counts the rest of a word skipped with space as missed", () => {
+    const { keystrokes } = recordRun("good on", typed("g on"));
+    const result = replayKeystrokes(keystrokes, "good on", WORDS);
+
+    expect(result).toMatchObject({ valid: true, total_letters: 7, uncorrected_errors: 3 });
+  });
+
+  it("returns to where a skip happened on Backspace", () => {
+    const { keystrokes, carets } = recordRun("good on", [..."g ", BACKSPACE, ..."ood on"]);
+    const result = replayKeystrokes(keystrokes, "good on", WORDS);
+
+    expect(carets[2]).toBe(1);
+    expect(result).toMatchObject({ valid: true, uncorrected_errors: 0, corrected_errors: 3 });
+  });
+
+  it("deletes back to the start of the word on Ctrl/Alt+Backspace", () => {
+    const { keystrokes, carets } = recordRun("go on it", [..."go ox", DELETE_WORD, ..."on it"]);
+    const result = replayKeystrokes(keystrokes, "go on it", WORDS);
+
+    expect(carets[5]).toBe(3);
+    expect(result).toMatchObject({ valid: true, uncorrected_errors: 0, corrected_errors: 1 });
+  });
+
+  it("keeps the caret on a wrong key under stop on error", () => {
+    const { keystrokes, carets } = recordRun("go on", typed("gxo on"), STRICT);
+    const result = replayKeystrokes(keystrokes, "go on", WORDS, STRICT);
+
+    expect(carets.slice(0, 3)).toEqual([1, 1, 2]);
+    expect(result).toMatchObject({ valid: true, uncorrected_errors: 1, corrected_errors: 0 });
+  });
+
+  it("doesn't count a stop on error mistake as corrected when it is deleted and retyped", () => {
+    const { keystrokes } = recordRun("go on", [..."gxo", BACKSPACE, ..."o on"], STRICT);
+    const result = replayKeystrokes(keystrokes, "go on", WORDS, STRICT);
+
+    expect(result).toMatchObject({ valid: true, uncorrected_errors: 1, corrected_errors: 0 });
+  });
+
+  it("rejects any deletion under confidence", () => {
+    const { keystrokes } = recordRun("go on", typed("go on"), CONFIDENCE);
+    const forged = [
+      ...keystrokes.slice(0, 2),
+      { key: "Backspace", timestamp: 250, index: 1, correct: false },
+      { key: "o", timestamp: 260, index: 1, correct: true },
+      ...keystrokes.slice(2).map((keystroke) => ({ ...keystroke, timestamp: keystroke.timestamp + 100 })),
+    ];
+
+    expect(replayKeystrokes(keystrokes, "go on", WORDS, CONFIDENCE).valid).toBe(true);
+    expect(replayKeystrokes(forged, "go on", WORDS, CONFIDENCE)).toMatchObject({
+      valid: false,
+      error: "Backspace is disabled in confidence mode",
+    });
+  });
+
+  it("rejects a log that doesn't follow the caret", () => {
+    const { keystrokes } = recordRun("go on", typed("go on"));
+    const forged = keystrokes.map((keystroke, position) =>
+      position === 3 ? { ...keystroke, index: 4 } : keystroke
+    );
+
+    expect(replayKeystrokes(forged, "go on", WORDS).valid).toBe(false);
+    expect(replayKeystrokes(keystrokes.slice(0, 4), "go on", WORDS)).toMatchObject({
+      valid: false,
+      error: "Keystroke log does not complete the run",
+    });
+  });
+
+  it("rejects a log whose correct flags disagree with the prompt", () => {
+    const { keystrokes } = recordRun("go on", typed("gx on"));
+    const forged = keystrokes.map((keystroke) => ({ ...keystroke, correct: true }));
+
+    expect(replayKeystrokes(forged, "go on", WORDS)).toMatchObject({
+      valid: false,
+      error: "Keystroke log does not match prompt",
+    });
+  });
+});
+
+describe("replayKeystrokes in timed modes", () => {
+  const TIMED: GameMode = { kind: "time", seconds: 1 };
+  const prompt = "go on and on";
+
+  it("counts the letters typed before the clock ran out over the full clock", () => {
+    const { keystrokes } = recordRun(prompt, typed("go on"));
+    const result = replayKeystrokes(keystrokes, prompt, TIMED);
+
+    expect(result).toMatchObject({ valid: true, total_letters: 5, time: 1, lps: 5 });
+  });
+
+  it("ignores keys pressed after the clock ran out", () => {
+    const { keystrokes } = recordRun(prompt, [...typed("go on"), { wait: 400 }, ..."an"]);
+    const result = replayKeystrokes(keystrokes, prompt, TIMED);
+
+    expect(keystrokes[keystrokes.length - 1].timestamp).toBeGreaterThan(1000);
+    expect(result).toMatchObject({ valid: true, total_letters: 5, time: 1 });
+  });
+
+  it("rejects keys pressed well after the clock ran out", () => {
+    const { keystrokes } = recordRun(prompt, [...typed("go on"), { wait: 2000 }, "a"]);
+
+    expect(replayKeystrokes(keystrokes, prompt, TIMED)).toMatchObject({
+      valid: false,
+      error: "Keystrokes recorded after the clock ran out",
+    });
+  });
+
+  it("ends early on a finished prompt, timed by the last counted key", () => {
+    const { keystrokes } = recordRun("go on", typed("go on"));
+    const result = replayKeystrokes(keystrokes, "go on", TIMED);
+
+    expect(result).toMatchObject({ valid: true, total_letters: 5, time: 0.5 });
+  });
+});
+
+describe("getCaretTimeline", () => {
+  it("follows the client's caret through extras, skips and deletions", () => {
+    const prompt = "good on it";
+    const { keystrokes, carets } = recordRun(prompt, [
+      ..."gx",
+      BACKSPACE,
+      ..."ood",
+      "z",
+      BACKSPACE,
+      ..." o ",
+      BACKSPACE,
+      "n",
+      DELETE_WORD,
+      ..."on it",
+    ]);
+
+    expect(getCaretTimeline(keystrokes, prompt).map(({ index }) => index)).toEqual(carets);
+    expect(replayKeystrokes(keystrokes, prompt, WORDS).valid).toBe(true);
+  });
+
+  it("follows the client's caret under stop on error", () => {
+    const { keystrokes, carets } = recordRun("go on", [..."gxxo", BACKSPACE, ..."o on"], STRICT);
+
+    expect(getCaretTimeline(keystrokes, "go on", STRICT).map(({ index }) => index)).toEqual(carets);
+  });
+});
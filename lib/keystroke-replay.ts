@@ -0,0 +1,402 @@
+import type { KeystrokeEvent } from "./types";
+import { NO_MODIFIERS, type GameMode, type PromptModifiers } from "./constants";
+
+// Upper bound on submitted log size so a forged payload can't make the replay expensive
+const MAX_KEYSTROKES = 10000;
+
+// Slack for the client's end-of-clock timer firing late in timed modes
+const TIME_MODE_GRACE_MS = 1000;
+
+export type ReplayResult = {
+  valid: boolean;
+  error?: string;
+  lps: number;
+  accuracy: number;
+  time: number; // in seconds
+  ms_per_letter: number;
+  total_letters: number; // prompt length (word modes) or letters typed (time modes)
+  uncorrected_errors: number;
+  corrected_errors: number;
+  wpm: number;
+  raw_wpm: number;
+  consistency: number; // 0-100
+};
+
+export type SpeedMetrics = {
+  wpm: number; // correct letters, 5 letters per word
+  raw_wpm: number; // every typed letter including errors
+  consistency: number; // 0-100, from the variation of per-second speed
+};
+
+export type SpeedTimeline = {
+  duration_ms: number;
+  points: { timestamp: number; ms_per_letter: number }[]; // one per completed word
+  errors: number[]; // timestamps of wrong keypresses
+};
+
+// Standard WPM counts 5 characters as one word
+const CHARS_PER_WORD = 5;
+
+// Ctrl/Alt+Backspace, logged with the index of the word start the caret jumped back to
+export const DELETE_WORD_KEY = "DeleteWord";
+
+// Extra letters that can be typed past the end of a word; further keys are ignored
+export const MAX_OVERFLOW = 10;
+
+export const isDeletion = (key: string) => key === "Backspace" || key === DELETE_WORD_KEY;
+
+export const isWordBoundary = (char: string | undefined) => char === " " || char === "\n";
+
+/**
+ * Index of the first letter of the word containing index (a word's trailing space belongs to it)
+ */
+export function getWordStart(prompt: string, index: number): number {
+  let start = index;
+  while (start > 0 && !isWordBoundary(prompt[start - 1])) start -= 1;
+  return start;
+}
+
+/**
+ * Index of the first letter of the next word, or the prompt length on the last word
+ */
+export function getNextWordStart(prompt: string, index: number): number {
+  let end = index;
+  while (end < prompt.length && !isWordBoundary(prompt[end])) end += 1;
+  return Math.min(end + 1, prompt.length);
+}
+
+/**
+ * Where Ctrl/Alt+Backspace takes the caret: back to the start of the current word,
+ * or of the previous word when nothing of the current one has been typed yet
+ */
+export function getDeleteWordTarget(prompt: string, index: number): number {
+  const start = getWordStart(prompt, index);
+  return start === index && index > 0 ? getWordStart(prompt, index - 1) : start;
+}
+
+const INVALID_RESULT = {
+  lps: 0,
+  accuracy: 0,
+  time: 0,
+  ms_per_letter: 0,
+  total_letters: 0,
+  uncorrected_errors: 0,
+  corrected_errors: 0,
+  wpm: 0,
+  raw_wpm: 0,
+  consistency: 0,
+};
+
+/**
+ * WPM, raw WPM and consistency of a run. Consistency maps the coefficient of variation
+ * of the letters typed in each full second to 0-100 (steady typing scores close to 100).
+ */
+export function calculateSpeedMetrics(
+  keystrokes: KeystrokeEvent[],
+  correctLetters: number,
+  durationMs: number
+): SpeedMetrics {
+  const minutes = Math.max(durationMs, 1) / 60000;
+  const typed = keystrokes.filter(
+    (keystroke) => !isDeletion(keystroke.key) && keystroke.timestamp <= durationMs
+  );
+
+  const fullSeconds = Math.floor(durationMs / 1000);
+  const perSecond = new Array<number>(fullSeconds).fill(0);
+  typed.forEach((keystroke) => {
+    const second = Math.floor(keystroke.timestamp / 1000);
+    if (second < fullSeconds) perSecond[second] += 1;
+  });
+
+  let consistency = 100;
+  if (perSecond.length > 1) {
+    const mean = perSecond.reduce((sum, count) => sum + count, 0) / perSecond.length;
+    const variance =
+      perSecond.reduce((sum, count) => sum + (count - mean) ** 2, 0) / perSecond.length;
+    const cv = mean > 0 ? Math.sqrt(variance) / mean : 1;
+    consistency = 100 * (1 - Math.tanh(cv + cv ** 3 / 3 + cv ** 5 / 5));
+  }
+
+  return {
+    wpm: parseFloat((correctLetters / CHARS_PER_WORD / minutes).toFixed(1)),
+    raw_wpm: parseFloat((typed.length / CHARS_PER_WORD / minutes).toFixed(1)),
+    consistency: parseFloat(consistency.toFixed(1)),
+  };
+}
+
+/**
+ * Speed of each word across the run, for the results chart. A word ends when its
+ * trailing space (or the prompt's last letter) is typed correctly, and its speed is
+ * the time since the previous word ended spread over its letters including the space.
+ */
+export function getSpeedTimeline(
+  keystrokes: KeystrokeEvent[],
+  prompt: string,
+  durationMs: number
+): SpeedTimeline {
+  const points: SpeedTimeline["points"] = [];
+  const errors: number[] = [];
+  let wordStartTime = 0;
+  let wordStartIndex = 0;
+
+  keystrokes.forEach((keystroke) => {
+    if (isDeletion(keystroke.key) || keystroke.timestamp > durationMs) return;
+    if (!keystroke.correct) {
+      errors.push(keystroke.timestamp);
+      return;
+    }
+
+    const target = prompt[keystroke.index];
+    const endsWord = target === " " || target === "\n" || keystroke.index === prompt.length - 1;
+    if (!endsWord) return;
+
+    const letters = keystroke.index + 1 - wordStartIndex;
+    if (letters > 0 && keystroke.timestamp > wordStartTime) {
+      points.push({
+        timestamp: keystroke.timestamp,
+        ms_per_letter: (keystroke.timestamp - wordStartTime) / letters,
+      });
+    }
+    wordStartTime = keystroke.timestamp;
+    wordStartIndex = keystroke.index + 1;
+  });
+
+  return { duration_ms: durationMs, points, errors };
+}
+
+/**
+ * Caret position after each keystroke, used to replay a stored run as a ghost
+ */
+export function getCaretTimeline(
+  keystrokes: KeystrokeEvent[],
+  prompt: string,
+  modifiers: PromptModifiers = NO_MODIFIERS
+): { timestamp: number; index: number }[] {
+  return keystrokes.map((keystroke) => {
+    const target = prompt[keystroke.index];
+    let index = keystroke.index + 1;
+    // Deletions are logged with where the caret ended up, and under stop on error
+    // a wrong key leaves the caret where it was
+    if (isDeletion(keystroke.key) || (modifiers.strict && !keystroke.correct)) {
+      index = keystroke.index;
+    } else if (isWordBoundary(target) && !isWordBoundary(keystroke.key)) {
+      // Extra letters past the end of a word
+      index = keystroke.index;
+    } else if (!isWordBoundary(target) && isWordBoundary(keystroke.key)) {
+      // Space in the middle of a word skips to the next one
+      index = getNextWordStart(prompt, keystroke.index);
+    }
+    return { timestamp: keystroke.timestamp, index };
+  });
+}
+
+/**
+ * Replay a keystroke log against the issued prompt the same way handleKeydown
+ * applies it to the letter spans, and derive the run's stats from it. Any entry
+ * that disagrees with the replayed caret position or the prompt text invalidates
+ * the whole log. Timed runs only count the keystrokes made before the clock ran out.
+ *
+ * Editing is word-aware: letters typed on a word's trailing space are extra letters
+ * (errors until deleted), a space typed inside a word skips to the next word and
+ * counts the skipped letters as missed, and Ctrl/Alt+Backspace deletes back to the
+ * start of the word. A Backspace right after a skip returns to where the skip happened.
+ * Under stop on error a wrong key doesn't move the caret and its error stays counted
+ * once the right key is found, even if the letter is later deleted and retyped; under
+ * confidence any deletion invalidates the log.
+ */
+export function replayKeystrokes(
+  keystrokes: KeystrokeEvent[],
+  prompt: string,
+  gameMode: GameMode,
+  modifiers: PromptModifiers = NO_MODIFIERS
+): ReplayResult {
+  const invalid = (error: string): ReplayResult => ({ valid: false, error, ...INVALID_RESULT });
+
+  if (!Array.isArray(keystrokes) || keystrokes.length === 0) {
+    return invalid("Missing keystroke log");
+  }
+
+  if (keystrokes.length > MAX_KEYSTROKES) {
+    return invalid("Keystroke log too long");
+  }
+
+  if (typeof prompt !== "string" || prompt.length === 0) {
+    return invalid("Missing prompt");
+  }
+
+  const promptLength = prompt.length;
+
+  const errorPositions = new Set<number>();
+  const correctedErrors = new Set<number>();
+  const overflow = new Map<number, number>(); // word's trailing space index -> extra letters typed on it
+  const skipOrigins = new Map<number, number>(); // next word start -> where the skip happened
+  let extraLetters = 0;
+  let deletedExtraLetters = 0;
+  let currentIndex = 0;
+  let lastTimestamp = 0;
+  let lastCountedTimestamp = 0;
+  const clockMs = gameMode.kind === "time" ? gameMode.seconds * 1000 : Infinity;
+
+  // Deleting letters counts their errors as corrected and drops the extra letters and skips
+  // after the new caret position. Under stop on error the letters behind the caret were already
+  // fixed in place, so their errors stand
+  const deleteBack = (target: number) => {
+    for (let index = target; index <= currentIndex; index += 1) {
+      if (index < currentIndex && errorPositions.has(index) && !modifiers.strict) {
+        correctedErrors.add(index);
+      }
+      if (index === target) continue;
+      deletedExtraLetters += overflow.get(index) ?? 0;
+      overflow.delete(index);
+      skipOrigins.delete(index);
+    }
+    currentIndex = target;
+  };
+
+  for (const keystroke of keystrokes) {
+    if (
+      !keystroke ||
+      typeof keystroke.key !== "string" ||
+      typeof keystroke.timestamp !== "number" ||
+      typeof keystroke.index !== "number" ||
+      typeof keystroke.correct !== "boolean"
+    ) {
+      return invalid("Malformed keystroke entry");
+    }
+
+    if (!Number.isFinite(keystroke.timestamp) || keystroke.timestamp < lastTimestamp) {
+      return invalid("Keystroke timestamps out of order");
+    }
+    lastTimestamp = keystroke.timestamp;
+
+    // Keys pressed after the clock ran out, while the client's timer was late, don't count
+    if (keystroke.timestamp > clockMs) continue;
+    lastCountedTimestamp = keystroke.timestamp;
+
+    if (currentIndex >= promptLength) {
+      return invalid("Keystrokes recorded after the run ended");
+    }
+
+    if (isDeletion(keystroke.key) && modifiers.confidence) {
+      return invalid("Backspace is disabled in confidence mode");
+    }
+
+    if (keystroke.key === "Backspace") {
+      const extra = overflow.get(currentIndex) ?? 0;
+      const skipOrigin = skipOrigins.get(currentIndex);
+      if (extra > 0) {
+        if (keystroke.index !== currentIndex) {
+          return invalid("Keystroke log does not replay");
+        }
+        overflow.set(currentIndex, extra - 1);
+        deletedExtraLetters += 1;
+      } else if (skipOrigin !== undefined) {
+        if (keystroke.index !== skipOrigin) {
+          return invalid("Keystroke log does not replay");
+        }
+        deleteBack(skipOrigin);
+      } else {
+        if (currentIndex === 0 || keystroke.index !== currentIndex - 1) {
+          return invalid("Keystroke log does not replay");
+        }
+        deleteBack(currentIndex - 1);
+      }
+      continue;
+    }
+
+    if (keystroke.key === DELETE_WORD_KEY) {
+      const target = getDeleteWordTarget(prompt, currentIndex);
+      const hasExtra = (overflow.get(currentIndex) ?? 0) > 0;
+      if ((target === currentIndex && !hasExtra) || keystroke.index !== target) {
+        return invalid("Keystroke log does not replay");
+      }
+      deleteBack(target);
+      continue;
+    }
+
+    if (keystroke.key.length !== 1 || keystroke.index !== currentIndex) {
+      return invalid("Keystroke log does not replay");
+    }
+
+    if (keystroke.correct !== (keystroke.key === prompt[currentIndex])) {
+      return invalid("Keystroke log does not match prompt");
+    }
+
+    const target = prompt[currentIndex];
+    if (!modifiers.strict && isWordBoundary(target) && !isWordBoundary(keystroke.key)) {
+      const extra = overflow.get(currentIndex) ?? 0;
+      if (extra >= MAX_OVERFLOW) {
+        return invalid("Too many extra letters");
+      }
+      overflow.set(currentIndex, extra + 1);
+      extraLetters += 1;
+      continue;
+    }
+
+    if (!modifiers.strict && !isWordBoundary(target) && isWordBoundary(keystroke.key)) {
+      if (getWordStart(prompt, currentIndex) === currentIndex) {
+        return invalid("Keystroke log does not replay");
+      }
+      const nextWordStart = getNextWordStart(prompt, currentIndex);
+      for (let index = currentIndex; index < nextWordStart && !isWordBoundary(prompt[index]); index += 1) {
+        errorPositions.add(index);
+      }
+      skipOrigins.set(nextWordStart, currentIndex);
+      currentIndex = nextWordStart;
+      continue;
+    }
+
+    if (keystroke.correct) {
+      if (errorPositions.has(currentIndex) && !modifiers.strict) {
+        correctedErrors.add(currentIndex);
+      }
+    } else {
+      errorPositions.add(currentIndex);
+      if (modifiers.strict) continue;
+    }
+    currentIndex += 1;
+  }
+
+  let totalLetters = promptLength;
+  let durationMs = lastCountedTimestamp;
+
+  if (gameMode.kind === "time") {
+    if (lastTimestamp > clockMs + TIME_MODE_GRACE_MS) {
+      return invalid("Keystrokes recorded after the clock ran out");
+    }
+    if (currentIndex === 0) {
+      return invalid("No letters typed");
+    }
+    totalLetters = currentIndex;
+    // A finished prompt ends a timed run early, otherwise the run lasts the full clock
+    if (currentIndex < promptLength) {
+      durationMs = gameMode.seconds * 1000;
+    }
+  } else if (currentIndex !== promptLength) {
+    return invalid("Keystroke log does not complete the run");
+  }
+
+  const durationSec = Math.max(durationMs / 1000, 0.001);
+  const lps = totalLetters / durationSec;
+  // Extra letters left in the text are errors too, deleting them counts as a correction
+  const uncorrectedErrors =
+    errorPositions.size - correctedErrors.size + extraLetters - deletedExtraLetters;
+  const accuracy = ((totalLetters - uncorrectedErrors) / totalLetters) * 100;
+  const speedMetrics = calculateSpeedMetrics(
+    keystrokes,
+    Math.max(totalLetters - uncorrectedErrors, 0),
+    durationMs
+  );
+
+  return {
+    valid: true,
+    lps: parseFloat(lps.toFixed(2)),
+    accuracy: parseFloat(Math.max(accuracy, 0).toFixed(1)),
+    time: parseFloat(durationSec.toFixed(2)),
+    ms_per_letter: parseFloat((durationMs / totalLetters).toFixed(0)),
+    total_letters: totalLetters,
+    uncorrected_errors: uncorrectedErrors,
+    corrected_errors: correctedErrors.size + deletedExtraLetters,
+    ...speedMetrics,
+  };
+}
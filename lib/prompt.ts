@@ -0,0 +1,154 @@
+// lib/prompt.ts
+// Prompt generation shared by /api/start-run (ranked runs) and the client (offline fallback)
+import dictionary from "./dictionary";
+import french from "./dictionaries/french";
+import german from "./dictionaries/german";
+import spanish from "./dictionaries/spanish";
+import portuguese from "./dictionaries/portuguese";
+import japaneseRomaji from "./dictionaries/japanese-romaji";
+import web3 from "./dictionaries/web3";
+import shuffle, { createSeededRandom } from "./shuffle";
+import { getCodePrompt, getCodeSnippets } from "./code-snippets";
+import {
+  DAILY_GAME_MODE,
+  DEFAULT_LANGUAGE,
+  DEFAULT_WORD_LIST,
+  NO_MODIFIERS,
+  TIME_MODE_WORDS_PER_SECOND,
+  type CodeLanguage,
+  type GameMode,
+  type Language,
+  type PromptModifiers,
+  type WordList,
+} from "./constants";
+
+const DICTIONARIES: Record<Language, string[]> = {
+  en: dictionary,
+  fr: french,
+  de: german,
+  es: spanish,
+  pt: portuguese,
+  ja: japaneseRomaji,
+};
+
+const FALLBACK_SENTENCES = [
+  "ten word sentence this is exactly 35",
+  "another fast one for you to type quick",
+  "etherlink instant confirmations are so fast",
+  "proof of speed with this one simple test",
+  "pro gamer speed could win this one game",
+];
+
+// Seeds that can be requested for a prompt; daily challenge seeds are derived server-side only
+const SEED_PATTERN = /^[a-z0-9]{1,32}$/;
+
+export const createSeed = () => Math.random().toString(36).slice(2, 10);
+
+export const isValidSeed = (seed: unknown): seed is string =>
+  typeof seed === "string" && SEED_PATTERN.test(seed);
+
+const SENTENCE_ENDINGS = [".", ".", ".", "?", "!"];
+const MIN_SENTENCE_WORDS = 4;
+const MAX_SENTENCE_WORDS = 12;
+
+const pick = <T>(items: T[], random: () => number) => items[Math.floor(random() * items.length)];
+
+/**
+ * Rewrite dictionary words in place: numbers replace some words, and the words are split
+ * into sentences whose starts are capitalized and which get commas, quotes, parentheses
+ * and end marks. Uses the prompt's random source so seeded prompts stay reproducible.
+ */
+const applyModifiers = (words: string[], modifiers: PromptModifiers, random: () => number) => {
+  if (modifiers.numbers) {
+    words.forEach((_, index) => {
+      if (random() < 0.15) {
+        words[index] = `${Math.floor(random() * 10 ** (1 + Math.floor(random() * 4)))}`;
+      }
+    });
+  }
+
+  if (!modifiers.punctuation && !modifiers.capitals) return;
+
+  let sentenceStart = 0;
+  while (sentenceStart < words.length) {
+    const length =
+      MIN_SENTENCE_WORDS + Math.floor(random() * (MAX_SENTENCE_WORDS - MIN_SENTENCE_WORDS + 1));
+    const sentenceEnd = Math.min(sentenceStart + length, words.length) - 1;
+
+    if (modifiers.capitals) {
+      const first = words[sentenceStart];
+      words[sentenceStart] = first.charAt(0).toUpperCase() + first.slice(1);
+    }
+
+    if (modifiers.punctuation) {
+      for (let index = sentenceStart; index < sentenceEnd; index++) {
+        const roll = random();
+        if (roll < 0.1) {
+          words[index] = `${words[index]},`;
+        } else if (roll < 0.14) {
+          words[index] = `"${words[index]}"`;
+        } else if (roll < 0.17) {
+          words[index] = `(${words[index]})`;
+        }
+      }
+      words[sentenceEnd] = `${words[sentenceEnd]}${pick(SENTENCE_ENDINGS, random)}`;
+    }
+
+    sentenceStart = sentenceEnd + 1;
+  }
+};
+
+// The same seed, word count, modifiers, language and word list always produce the same sentence
+export const generateSentence = (
+  wordCount: number,
+  seed?: string,
+  modifiers: PromptModifiers = NO_MODIFIERS,
+  language: Language = DEFAULT_LANGUAGE,
+  wordList: WordList = DEFAULT_WORD_LIST
+) => {
+  const random = seed ? createSeededRandom(seed) : Math.random;
+  // The web3 vocabulary is english only
+  const dictionaryWords = wordList === "web3" ? web3 : DICTIONARIES[language];
+  try {
+    // Timed modes can ask for more words than the dictionary holds, so keep appending fresh shuffles
+    const words: string[] = [];
+    while (words.length < wordCount) {
+      words.push(...shuffle(dictionaryWords, random));
+    }
+    const sentenceWords = words.slice(0, wordCount);
+    applyModifiers(sentenceWords, modifiers, random);
+    return sentenceWords.join(" ");
+  } catch {
+    return FALLBACK_SENTENCES[Math.floor(Math.random() * FALLBACK_SENTENCES.length)];
+  }
+};
+
+// Code modes pick one of the language's snippets; the seed picks the same one again
+export const generateCodePrompt = (language: CodeLanguage, seed?: string) => {
+  const random = seed ? createSeededRandom(seed) : Math.random;
+  return getCodePrompt(pick(getCodeSnippets(language), random).code);
+};
+
+export const generatePrompt = (
+  mode: GameMode,
+  seed?: string,
+  modifiers: PromptModifiers = NO_MODIFIERS,
+  language: Language = DEFAULT_LANGUAGE,
+  wordList: WordList = DEFAULT_WORD_LIST
+) =>
+  mode.kind === "code"
+    ? generateCodePrompt(mode.language, seed)
+    : generateSentence(
+        mode.kind === "words" ? mode.count : mode.seconds * TIME_MODE_WORDS_PER_SECOND,
+        seed,
+        modifiers,
+        language,
+        wordList
+      );
+
+// UTC day of the daily challenge, e.g. "2025-01-31"
+export const getDailyDay = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+// Everyone gets the same daily prompt, seeded from the day
+export const generateDailyPrompt = (day: string) =>
+  generatePrompt(DAILY_GAME_MODE, `daily-${day}`);
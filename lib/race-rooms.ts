@@ -0,0 +1,296 @@
+import crypto from "crypto";
+import { MAX_ROOM_PLAYERS, MIN_ROOM_PLAYERS, type GameMode } from "./constants";
+import { createSeed, generatePrompt } from "./prompt";
+import type { RoomEvent, RoomSnapshot } from "./types";
+
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 6;
+const ROOM_COUNTDOWN_MS = 3000;
+// Rooms nobody has touched for this long are dropped
+const ROOM_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Delivers room events to everyone connected to a room.
+ * The in-process implementation works for a single server instance and local development;
+ * a Supabase realtime or Redis backed transport can implement the same interface.
+ */
+export interface RoomTransport {
+  publish(code: string, event: RoomEvent): void;
+  subscribe(code: string, listener: (event: RoomEvent) => void): () => void;
+}
+
+export function createInProcessTransport(): RoomTransport {
+  const listeners = new Map<string, Set<(event: RoomEvent) => void>>();
+
+  return {
+    publish(code, event) {
+      listeners.get(code)?.forEach((listener) => listener(event));
+    },
+    subscribe(code, listener) {
+      const roomListeners = listeners.get(code) ?? new Set();
+      roomListeners.add(listener);
+      listeners.set(code, roomListeners);
+
+      return () => {
+        roomListeners.delete(listener);
+        if (roomListeners.size === 0) {
+          listeners.delete(code);
+        }
+      };
+    },
+  };
+}
+
+type RoomMember = {
+  player_name: string;
+  token: string;
+  index: number; // letters typed in the current race
+};
+
+type RaceRoom = {
+  code: string;
+  game_mode: GameMode;
+  host: string;
+  members: RoomMember[];
+  prompt: string | null;
+  seed: string | null;
+  race_number: number;
+  starts_at: number | null;
+  finishers: { player_name: string; time: number }[];
+  updated_at: number;
+};
+
+export type RoomResult =
+  | { room: RaceRoom; token?: string; error?: undefined }
+  | { room: null; error: string };
+
+// Rooms live in process memory; keep them on globalThis so dev hot reloads don't drop them
+const roomGlobals = globalThis as typeof globalThis & {
+  __raceRooms?: Map<string, RaceRoom>;
+  __roomTransport?: RoomTransport;
+};
+const rooms = (roomGlobals.__raceRooms ??= new Map<string, RaceRoom>());
+export const roomTransport = (roomGlobals.__roomTransport ??= createInProcessTransport());
+
+function generateRoomCode(): string {
+  const bytes = crypto.randomBytes(ROOM_CODE_LENGTH);
+  return Array.from(bytes, (byte) => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join("");
+}
+
+function pruneRooms() {
+  const now = Date.now();
+  rooms.forEach((room, code) => {
+    if (now - room.updated_at > ROOM_TTL_MS) {
+      rooms.delete(code);
+      roomTransport.publish(code, { type: "closed" });
+    }
+  });
+}
+
+export function toRoomSnapshot(room: RaceRoom): RoomSnapshot {
+  const promptLength = room.prompt?.length ?? 0;
+  const finishers = [...room.finishers].sort((a, b) => a.time - b.time);
+
+  return {
+    code: room.code,
+    game_mode: room.game_mode,
+    players: room.members.map((member) => ({
+      player_name: member.player_name,
+      progress: promptLength > 0 ? Math.min(member.index / promptLength, 1) : 0,
+      is_host: member.player_name === room.host,
+    })),
+    race_number: room.race_number,
+    starts_at: room.starts_at,
+    finishers: finishers.map((finisher, index) => ({ ...finisher, place: index + 1 })),
+    server_time: Date.now(),
+  };
+}
+
+function broadcast(room: RaceRoom) {
+  room.updated_at = Date.now();
+  roomTransport.publish(room.code, { type: "room", room: toRoomSnapshot(room) });
+}
+
+function findMember(room: RaceRoom, token: string): RoomMember | undefined {
+  return room.members.find((member) => member.token === token);
+}
+
+export function getRoom(code: string): RaceRoom | null {
+  return rooms.get(code.toUpperCase()) ?? null;
+}
+
+export function createRoom(playerName: string, gameMode: GameMode): RoomResult {
+  pruneRooms();
+
+  let code = generateRoomCode();
+  while (rooms.has(code)) {
+    code = generateRoomCode();
+  }
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  const room: RaceRoom = {
+    code,
+    game_mode: gameMode,
+    host: playerName,
+    members: [{ player_name: playerName, token, index: 0 }],
+    prompt: null,
+    seed: null,
+    race_number: 0,
+    starts_at: null,
+    finishers: [],
+    updated_at: Date.now(),
+  };
+  rooms.set(code, room);
+
+  return { room, token };
+}
+
+export function joinRoom(code: string, playerName: string): RoomResult {
+  const room = getRoom(code);
+  if (!room) {
+    return { room: null, error: "Room not found" };
+  }
+
+  if (room.members.some((member) => member.player_name === playerName)) {
+    return { room: null, error: "A player with that name is already in the room" };
+  }
+
+  if (room.members.length >= MAX_ROOM_PLAYERS) {
+    return { room: null, error: `Room is full (max ${MAX_ROOM_PLAYERS} players)` };
+  }
+
+  if (room.starts_at !== null && room.finishers.length < room.members.length) {
+    return { room: null, error: "A race is in progress" };
+  }
+
+  const token = crypto.randomBytes(24).toString("base64url");
+  room.members.push({ player_name: playerName, token, index: 0 });
+  broadcast(room);
+
+  return { room, token };
+}
+
+export function leaveRoom(code: string, token: string): RoomResult {
+  const room = getRoom(code);
+  const member = room && findMember(room, token);
+  if (!room || !member) {
+    return { room: null, error: "Not a member of this room" };
+  }
+
+  room.members = room.members.filter((other) => other !== member);
+  if (room.members.length === 0) {
+    rooms.delete(room.code);
+    roomTransport.publish(room.code, { type: "closed" });
+    return { room };
+  }
+
+  // Hand the room over so it can still be started
+  if (room.host === member.player_name) {
+    room.host = room.members[0].player_name;
+  }
+  broadcast(room);
+
+  return { room };
+}
+
+/**
+ * Issue a new shared prompt and start the synchronized countdown
+ */
+export function startRace(code: string, token: string): RoomResult {
+  const room = getRoom(code);
+  const member = room && findMember(room, token);
+  if (!room || !member) {
+    return { room: null, error: "Not a member of this room" };
+  }
+
+  if (member.player_name !== room.host) {
+    return { room: null, error: "Only the host can start the race" };
+  }
+
+  if (room.members.length < MIN_ROOM_PLAYERS) {
+    return { room: null, error: `At least ${MIN_ROOM_PLAYERS} players are needed to race` };
+  }
+
+  room.seed = createSeed();
+  room.prompt = generatePrompt(room.game_mode, room.seed);
+  room.race_number += 1;
+  room.starts_at = Date.now() + ROOM_COUNTDOWN_MS;
+  room.finishers = [];
+  room.members.forEach((other) => {
+    other.index = 0;
+  });
+  broadcast(room);
+
+  return { room };
+}
+
+export function updateProgress(code: string, token: string, index: number): RoomResult {
+  const room = getRoom(code);
+  const member = room && findMember(room, token);
+  if (!room || !member) {
+    return { room: null, error: "Not a member of this room" };
+  }
+
+  if (!room.prompt || !Number.isInteger(index) || index < 0) {
+    return { room: null, error: "Invalid progress" };
+  }
+
+  member.index = Math.min(index, room.prompt.length);
+  broadcast(room);
+
+  return { room };
+}
+
+/**
+ * Shared prompt of the current race, for /api/start-run to bind a run session to
+ */
+export function getRaceRun(
+  code: string,
+  token: string
+):
+  | {
+      race: {
+        code: string;
+        prompt: string;
+        seed: string | null;
+        game_mode: GameMode;
+        race_number: number;
+        player_name: string;
+      };
+      error?: undefined;
+    }
+  | { race: null; error: string } {
+  const room = getRoom(code);
+  const member = room && findMember(room, token);
+  if (!room || !member) {
+    return { race: null, error: "Not a member of this room" };
+  }
+
+  if (!room.prompt) {
+    return { race: null, error: "Race has not started" };
+  }
+
+  return {
+    race: {
+      code: room.code,
+      prompt: room.prompt,
+      seed: room.seed,
+      game_mode: room.game_mode,
+      race_number: room.race_number,
+      player_name: member.player_name,
+    },
+  };
+}
+
+/**
+ * Place a player on the podium once /api/game-results has validated their run
+ */
+export function recordFinish(code: string, raceNumber: number, playerName: string, time: number) {
+  const room = getRoom(code);
+  if (!room || room.race_number !== raceNumber) return;
+  if (!room.members.some((member) => member.player_name === playerName)) return;
+  if (room.finishers.some((finisher) => finisher.player_name === playerName)) return;
+
+  room.finishers.push({ player_name: playerName, time });
+  broadcast(room);
+}
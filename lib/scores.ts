@@ -1,14 +1,64 @@
 import { supabase, supabaseAnonymous } from "./supabase";
-import type { GameResult, GameResultSubmission, LeaderboardEntry } from "./types";
+import type {
+  DailyResultEntry,
+  GameResult,
+  GameResultSubmission,
+  LeaderboardEntry,
+  LeaderboardSortKey,
+  RunDetail,
+} from "./types";
+import {
+  DEFAULT_DEVICE,
+  DEFAULT_LANGUAGE,
+  DEFAULT_WORD_LIST,
+  GAME_MODES,
+  NO_MODIFIERS,
+  getBucketFilter,
+  getGameModeKey,
+  getGameModeValue,
+  getModifiersKey,
+  type Device,
+  type GameMode,
+  type Language,
+  type PromptModifiers,
+  type WordList,
+} from "./constants";
+import { fetchChains, type Chain } from "./chains";
+import { SCORE_VERSION, getScoreVersionFilter } from "./scoring";
+
+// Leaderboard reads skip the prompt and keystroke log stored with each best run
+const LEADERBOARD_COLUMNS =
+  "id, player_name, score, lps, accuracy, rank, time, ms_per_letter, wpm, raw_wpm, consistency, game_mode, game_mode_kind, modifiers, language, word_list, device, score_version, isTwitterUser, created_at";
+
+const DAILY_COLUMNS =
+  "id, day, player_name, score, lps, accuracy, rank, time, ms_per_letter, score_version, isTwitterUser, created_at";
 
 
+/**
+ * Column values of a leaderboard bucket. Code modes have a single bucket,
+ * and the web3 vocabulary is english only.
+ */
+function getBucketColumns(
+  gameMode: GameMode,
+  modifiers: PromptModifiers,
+  language: Language,
+  wordList: WordList
+) {
+  const isCode = gameMode.kind === "code";
+  return {
+    modifiers: isCode ? "" : getModifiersKey(modifiers),
+    language: isCode || wordList === "web3" ? DEFAULT_LANGUAGE : language,
+    word_list: isCode ? DEFAULT_WORD_LIST : wordList,
+  };
+}
+
 /**
  * Get best score from localStorage
  */
-export function getLocalBestScore(playerName: string, gameMode: number): number | null {
+export function getLocalBestScore(playerName: string, gameMode: GameMode): number | null {
   if (typeof window === "undefined") return null;
   try {
-    const key = `best_score_${playerName}_${gameMode}`;
+    const key = `best_score_${playerName}_${getGameModeKey(gameMode)}`;
     const stored = localStorage.getItem(key);
     return stored ? parseFloat(stored) : null;
   } catch {
@@ -19,10 +69,10 @@ export function getLocalBestScore(playerName: string, gameMode: number): number
 /**
  * Save best score to localStorage
  */
-export function setLocalBestScore(playerName: string, gameMode: number, score: number): void {
+export function setLocalBestScore(playerName: string, gameMode: GameMode, score: number): void {
   if (typeof window === "undefined") return;
   try {
-    const key = `best_score_${playerName}_${gameMode}`;
+    const key = `best_score_${playerName}_${getGameModeKey(gameMode)}`;
     localStorage.setItem(key, score.toString());
   } catch {
     // Silently fail if localStorage is not available
@@ -32,10 +82,10 @@ export function setLocalBestScore(playerName: string, gameMode: number, score: n
 /**
  * Get the database record ID from localStorage
  */
-export function getLocalRecordId(playerName: string, gameMode: number): number | null {
+export function getLocalRecordId(playerName: string, gameMode: GameMode): number | null {
   if (typeof window === "undefined") return null;
   try {
-    const key = `record_id_${playerName}_${gameMode}`;
+    const key = `record_id_${playerName}_${getGameModeKey(gameMode)}`;
     const stored = localStorage.getItem(key);
     return stored ? parseInt(stored, 10) : null;
   } catch {
@@ -46,10 +96,10 @@ export function getLocalRecordId(playerName: string, gameMode: number): number |
 /**
  * Save the database record ID to localStorage
  */
-export function setLocalRecordId(playerName: string, gameMode: number, id: number): void {
+export function setLocalRecordId(playerName: string, gameMode: GameMode, id: number): void {
   if (typeof window === "undefined") return;
   try {
-    const key = `record_id_${playerName}_${gameMode}`;
+    const key = `record_id_${playerName}_${getGameModeKey(gameMode)}`;
     localStorage.setItem(key, id.toString());
   } catch {
     // Silently fail if localStorage is not available
@@ -79,6 +129,19 @@ export async function saveGameResult(result: GameResultSubmission): Promise<{ su
       return { success: false, error: apiResult.error || "Failed to save game result" };
     }
 
+    // Daily and unranked attempts don't touch the mode's personal best, and the local cache and
+    // profile only track the desktop english common-words buckets without prompt modifiers
+    if (
+      apiResult.daily_day ||
+      apiResult.unranked ||
+      getModifiersKey(result.modifiers ?? NO_MODIFIERS) ||
+      (result.language ?? DEFAULT_LANGUAGE) !== DEFAULT_LANGUAGE ||
+      (result.word_list ?? DEFAULT_WORD_LIST) !== DEFAULT_WORD_LIST ||
+      (result.device ?? DEFAULT_DEVICE) !== DEFAULT_DEVICE
+    ) {
+      return { success: true, isNewBest: false, id: apiResult.id };
+    }
+
     // Update localStorage cache - fetch from server since score is computed server-side
     const bestScoreResult = await getUserBestScore(
       result.player_name,
@@ -115,14 +178,27 @@ function calculateAccuracyWeightedScore(lps: number, accuracy: number): number {
 /**
  * Get leaderboard entries for a specific game mode
  * Sorted by accuracy-weighted score (lps * (accuracy/100)^2)
- * @param gameMode - The game mode (15 or 30 words)
+ * @param gameMode - The game mode (word count or time limit)
  * @param limit - Number of entries to return (default: 10)
+ * @param modifiers - Prompt modifiers bucket (default: none)
+ * @param sortBy - Column to rank by (default: score)
+ * @param language - Word list language bucket (default: english)
+ * @param wordList - Common words or web3 vocabulary bucket (default: common words)
+ * @param device - Desktop or mobile keyboard bucket (default: desktop)
+ * @param scoreVersion - Scoring formula version, null for every version (default: current)
  */
 export async function getLeaderboard(
-  gameMode: number,
-  limit: number = 10
+  gameMode: GameMode,
+  limit: number = 10,
+  modifiers: PromptModifiers = NO_MODIFIERS,
+  sortBy: LeaderboardSortKey = "score",
+  language: Language = DEFAULT_LANGUAGE,
+  wordList: WordList = DEFAULT_WORD_LIST,
+  device: Device = DEFAULT_DEVICE,
+  scoreVersion: number | null = SCORE_VERSION
 ): Promise<{ data: LeaderboardEntry[] | null; error?: string }> {
   try {
+    const bucket = getBucketColumns(gameMode, modifiers, language, wordList);
     // Note: Leaderboard queries are public reads and don't require authentication
     // Same logic works for name-based and Twitter auth users
     
@@ -131,11 +207,19 @@ export async function getLeaderboard(
     
     try {
       // Use anonymous client for public reads - ensures same behavior for all users
-      const queryPromise = supabaseAnonymous
+      let query = supabaseAnonymous
         .from("game_results")
-        .select("*")
-        .eq("game_mode", gameMode)
-        .limit(10000);
+        .select(LEADERBOARD_COLUMNS)
+        .eq("game_mode", getGameModeValue(gameMode))
+        .or(getBucketFilter("game_mode_kind", gameMode.kind, "words"))
+        .or(getBucketFilter("modifiers", bucket.modifiers, ""))
+        .or(getBucketFilter("language", bucket.language, DEFAULT_LANGUAGE))
+        .or(getBucketFilter("word_list", bucket.word_list, DEFAULT_WORD_LIST))
+        .or(getBucketFilter("device", device, DEFAULT_DEVICE));
+      if (scoreVersion !== null) {
+        query = query.or(getScoreVersionFilter(scoreVersion));
+      }
+      const queryPromise = query.limit(10000);
       
       // Add timeout to prevent hanging (15 seconds to account for slower connections)
       const timeoutPromise = new Promise<{ data: null; error: any }>((resolve) => {
@@ -176,6 +260,11 @@ export async function getLeaderboard(
     // Secondary sort: accuracy (higher is better) as tiebreaker
     // Tertiary sort: lps (higher is better) as final tiebreaker
     const sortedEntries = [...data].sort((a: LeaderboardEntry, b: LeaderboardEntry) => {
+      // Another column was picked: rank by it, rows from before it was tracked go last
+      if (sortBy !== "score") {
+        const difference = (b[sortBy] ?? -1) - (a[sortBy] ?? -1);
+        if (difference !== 0) return difference;
+      }
       // Primary sort: score (higher is better)
       if (Math.abs(b.score - a.score) > 0.0001) {
         return b.score - a.score;
@@ -200,6 +289,128 @@ export async function getLeaderboard(
   }
 }
 
+/**
+ * Get the daily challenge leaderboard for a UTC day
+ * @param day - "YYYY-MM-DD"
+ * @param limit - Number of entries to return (default: 100)
+ * @param scoreVersion - Scoring formula version, null for every version (default: current)
+ */
+export async function getDailyLeaderboard(
+  day: string,
+  limit: number = 100,
+  scoreVersion: number | null = SCORE_VERSION
+): Promise<{ data: DailyResultEntry[] | null; error?: string }> {
+  try {
+    let query = supabaseAnonymous
+      .from("daily_results")
+      .select(DAILY_COLUMNS)
+      .eq("day", day);
+    if (scoreVersion !== null) {
+      query = query.or(getScoreVersionFilter(scoreVersion));
+    }
+    const { data, error } = await query
+      .order("score", { ascending: false })
+      .order("accuracy", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data: (data ?? []) as DailyResultEntry[] };
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Get the winner of each past daily challenge, most recent day first
+ * @param beforeDay - first day not included (usually today, whose challenge is still open)
+ * @param days - how many days back to look (default: 30)
+ * @param scoreVersion - Scoring formula version, null for every version (default: current)
+ */
+export async function getDailyWinners(
+  beforeDay: string,
+  days: number = 30,
+  scoreVersion: number | null = SCORE_VERSION
+): Promise<{ data: DailyResultEntry[] | null; error?: string }> {
+  try {
+    const since = new Date(`${beforeDay}T00:00:00Z`);
+    since.setUTCDate(since.getUTCDate() - days);
+
+    let query = supabaseAnonymous
+      .from("daily_results")
+      .select(DAILY_COLUMNS)
+      .gte("day", since.toISOString().slice(0, 10))
+      .lt("day", beforeDay);
+    if (scoreVersion !== null) {
+      query = query.or(getScoreVersionFilter(scoreVersion));
+    }
+    const { data, error } = await query
+      .order("day", { ascending: false })
+      .order("score", { ascending: false })
+      .order("accuracy", { ascending: false })
+      .limit(5000);
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    // Rows are ordered best first within each day, so the first row per day is the winner
+    const winners: DailyResultEntry[] = [];
+    ((data ?? []) as DailyResultEntry[]).forEach((entry) => {
+      if (winners[winners.length - 1]?.day !== entry.day) {
+        winners.push(entry);
+      }
+    });
+
+    return { data: winners };
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+}
+
+// The chain registry rarely changes, so it's read once per page load
+let chainsRequest: Promise<Chain[]> | null = null;
+
+/**
+ * Get the chain registry, slowest chain first
+ */
+export function getChains(): Promise<Chain[]> {
+  if (!chainsRequest) chainsRequest = fetchChains(supabaseAnonymous);
+  return chainsRequest;
+}
+
+/**
+ * Get a finished run for the /run/[id] explorer page
+ * Goes through the API route, which keeps the run's token hash and IP private
+ */
+export async function getRunDetail(
+  runId: string
+): Promise<{ data: RunDetail | null; error?: string }> {
+  try {
+    const response = await fetch(`/api/runs/${encodeURIComponent(runId)}`);
+    const apiResult = await response.json();
+
+    if (!apiResult.success) {
+      return { data: null, error: apiResult.error || "Failed to load run" };
+    }
+
+    return { data: apiResult.run };
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : "Unknown error",
+    };
+  }
+}
+
 /**
  * Get user profile data from localStorage
  * Returns the best score across all game modes
@@ -207,18 +418,17 @@ export async function getLeaderboard(
 export function getUserProfile(playerName: string): {
   name: string;
   bestScore: number | null;
-  bestGameMode: number | null;
+  bestGameMode: GameMode | null;
   hasProfile: boolean;
 } {
   if (typeof window === "undefined") {
     return { name: playerName, bestScore: null, bestGameMode: null, hasProfile: false };
   }
 
-  const gameModes = [15, 30];
   let bestScore: number | null = null;
-  let bestGameMode: number | null = null;
+  let bestGameMode: GameMode | null = null;
 
-  for (const mode of gameModes) {
+  for (const mode of GAME_MODES) {
     const score = getLocalBestScore(playerName, mode);
     if (score !== null && (bestScore === null || score > bestScore)) {
       bestScore = score;
@@ -239,9 +449,14 @@ export function getUserProfile(playerName: string): {
  */
 export async function getUserBestScore(
   playerName: string,
-  gameMode: number
+  gameMode: GameMode,
+  modifiers: PromptModifiers = NO_MODIFIERS,
+  language: Language = DEFAULT_LANGUAGE,
+  wordList: WordList = DEFAULT_WORD_LIST,
+  device: Device = DEFAULT_DEVICE
   ): Promise<{ data: LeaderboardEntry | null; error?: string }> {
   try {
+    const bucket = getBucketColumns(gameMode, modifiers, language, wordList);
     // Note: User score queries are public reads and don't require authentication
     // Same logic works for name-based and Twitter auth users
     
@@ -252,9 +467,16 @@ export async function getUserBestScore(
       // Use anonymous client for public reads - ensures same behavior for all users
       const queryPromise = supabaseAnonymous
         .from("game_results")
-        .select("*")
+        .select(LEADERBOARD_COLUMNS)
         .eq("player_name", playerName)
-        .eq("game_mode", gameMode)
+        .eq("game_mode", getGameModeValue(gameMode))
+        .or(getBucketFilter("game_mode_kind", gameMode.kind, "words"))
+        .or(getBucketFilter("modifiers", bucket.modifiers, ""))
+        .or(getBucketFilter("language", bucket.language, DEFAULT_LANGUAGE))
+        .or(getBucketFilter("word_list", bucket.word_list, DEFAULT_WORD_LIST))
+        .or(getBucketFilter("device", device, DEFAULT_DEVICE))
+        // Personal bests are kept per formula version, like on the server
+        .or(getScoreVersionFilter(SCORE_VERSION))
         .order("score", { ascending: false })
         .limit(1)
         .single();
@@ -308,12 +530,11 @@ export async function getAllUserScores(
   playerName: string
 ): Promise<{ data: LeaderboardEntry[]; error?: string }> {
   try {
-    const gameModes = [15, 30];
     const allScores: LeaderboardEntry[] = [];
 
-    // Fetch best score for each game mode
+    // Fetch best score for each game mode (already in GAME_MODES display order)
     // Add error handling to prevent one failed query from blocking others
-    for (const mode of gameModes) {
+    for (const mode of GAME_MODES) {
       try {
         const result = await getUserBestScore(playerName, mode);
         if (result.data) {
@@ -324,9 +545,6 @@ export async function getAllUserScores(
       }
     }
 
-    // Sort by game mode (15, 30)
-    allScores.sort((a, b) => a.game_mode - b.game_mode);
-
     return { data: allScores };
   } catch (err) {
     return {
@@ -342,12 +560,10 @@ export async function getAllUserScores(
 export function clearPlayerData(playerName: string): void {
   if (typeof window === "undefined") return;
   try {
-    const gameModes = [15, 30];
-    
     // Clear all best scores and record IDs for all game modes
-    gameModes.forEach((mode) => {
-      localStorage.removeItem(`best_score_${playerName}_${mode}`);
-      localStorage.removeItem(`record_id_${playerName}_${mode}`);
+    GAME_MODES.forEach((mode) => {
+      localStorage.removeItem(`best_score_${playerName}_${getGameModeKey(mode)}`);
+      localStorage.removeItem(`record_id_${playerName}_${getGameModeKey(mode)}`);
     });
     
     // Clear Twitter avatar if exists
@@ -429,11 +645,10 @@ export function clearStoredTwitterAvatar(playerName: string): void {
  */
 export async function restoreUserDataFromDB(playerName: string): Promise<boolean> {
   try {
-    const gameModes = [15, 30];
     let hasData = false;
 
     // Fetch best score for each game mode
-    for (const mode of gameModes) {
+    for (const mode of GAME_MODES) {
       const result = await getUserBestScore(playerName, mode);
       if (result.data) {
         // Update localStorage with the fetched data
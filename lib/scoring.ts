@@ -0,0 +1,87 @@
+// lib/scoring.ts
+// Score and rank formulas, shared by the results screen and /api/game-results so the score a
+// player sees is the one the server stores. Retuning anything here means bumping SCORE_VERSION
+import { NO_MODIFIERS, forbidsCorrections, type GameMode, type PromptModifiers } from "./constants";
+
+// Formula revisions, oldest first. game_results rows store the version that scored them
+export const SCORE_VERSIONS: { version: number; description: string }[] = [
+  { version: 1, description: "LPS × accuracy², correction bonus, 1.22× for long modes" },
+];
+
+export const SCORE_VERSION = SCORE_VERSIONS[SCORE_VERSIONS.length - 1].version;
+
+// Rows from before score_version was stored were all scored by the first formula
+const UNVERSIONED_SCORE_VERSION = 1;
+
+export function getScoreVersion(row: { score_version?: number | null }): number {
+  return row.score_version ?? UNVERSIONED_SCORE_VERSION;
+}
+
+/**
+ * PostgREST `or` filter matching the rows scored by a formula version, unversioned rows included
+ */
+export function getScoreVersionFilter(version: number): string {
+  return version === UNVERSIONED_SCORE_VERSION
+    ? `score_version.eq.${version},score_version.is.null`
+    : `score_version.eq.${version}`;
+}
+
+// 30-word runs are harder to sustain, calibrated from best player data (14.07 / 11.50 ≈ 1.22)
+// Timed runs last at least as long as a 30-word run, so they get the same normalization,
+// and so do code snippets, which are as long and full of symbols
+export function getGameModeMultiplier(gameMode: GameMode): number {
+  if (gameMode.kind === "time" || gameMode.kind === "code") return 1.22;
+  return gameMode.count === 30 ? 1.22 : 1.0;
+}
+
+export function calculateScore(
+  lps: number,
+  accuracy: number,
+  gameMode: GameMode,
+  totalErrors: number,
+  correctedErrors: number,
+  totalLetters: number,
+  modifiers: PromptModifiers = NO_MODIFIERS
+): number {
+  // Stop on error and confidence runs can't correct anything, so they score without the
+  // correction bonus: every letter that was ever mistyped costs accuracy
+  const correctionRate = totalErrors > 0 ? correctedErrors / totalErrors : 0;
+  const errorRate = totalLetters > 0 ? totalErrors / totalLetters : 0;
+  const correctionBonus = forbidsCorrections(modifiers)
+    ? 0
+    : correctionRate * (1 - Math.min(errorRate * 10, 0.5)) * 0.15;
+
+  const accuracyDecimal = accuracy / 100;
+  const baseScore = lps * (accuracyDecimal * accuracyDecimal);
+
+  const scoreWithCorrection = baseScore * (1 + correctionBonus);
+
+  const gameModeMultiplier = getGameModeMultiplier(gameMode);
+  const finalScore = scoreWithCorrection * gameModeMultiplier;
+
+  return finalScore;
+}
+
+// Grandmaster sits at 14, where the best player's 15 and 30-word runs land,
+// and each rank needs a minimum accuracy so spam-typing can't reach it
+export function calculateRank(score: number, accuracy: number): string {
+  const MIN_ACCURACY_GRANDMASTER = 98;
+  const MIN_ACCURACY_TURBO = 95;
+  const MIN_ACCURACY_CHAIN = 90;
+  const MIN_ACCURACY_SPEED = 85;
+  const MIN_ACCURACY_LATENCY = 80;
+
+  if (score >= 14 && accuracy >= MIN_ACCURACY_GRANDMASTER) {
+    return "Grandmaster of Speed 👑";
+  } else if (score >= 11 && accuracy >= MIN_ACCURACY_TURBO) {
+    return "Turbo Typelord 💎";
+  } else if (score >= 7 && accuracy >= MIN_ACCURACY_CHAIN) {
+    return "Chain Slayer ⚔️";
+  } else if (score >= 4 && accuracy >= MIN_ACCURACY_SPEED) {
+    return "Speed Operator 🥇";
+  } else if (score >= 1 && accuracy >= MIN_ACCURACY_LATENCY) {
+    return "Latency Warrior 🥈";
+  } else {
+    return "Typing Rookie 🥉";
+  }
+}
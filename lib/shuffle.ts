@@ -1,6 +1,7 @@
 // lib/shuffle.ts
 // Simple Fisher-Yates shuffle algorithm
-export default function shuffle<T>(array: T[]): T[] {
+// Pass a seeded random source to get the same order for the same seed
+export default function shuffle<T>(array: T[], random: () => number = Math.random): T[] {
   const newArray = [...array];
   let currentIndex = newArray.length;
   let randomIndex;
@@ -8,7 +9,7 @@ export default function shuffle<T>(array: T[]): T[] {
   // While there remain elements to shuffle.
   while (currentIndex !== 0) {
     // Pick a remaining element.
-    randomIndex = Math.floor(Math.random() * currentIndex);
+    randomIndex = Math.floor(random() * currentIndex);
     currentIndex--;
 
     // And swap it with the current element.
@@ -20,4 +21,19 @@ export default function shuffle<T>(array: T[]): T[] {
   return newArray;
 }
 
+// Deterministic random source (mulberry32) seeded from a string hash (FNV-1a)
+export function createSeededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
 
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
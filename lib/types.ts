@@ -1,3 +1,5 @@
+import type { Device, GameMode, GameModeKind, Language, PromptModifiers, WordList } from "./constants";
+
 // Database types for game results
 export type GameResult = {
   id?: number;
@@ -8,34 +10,78 @@ export type GameResult = {
   rank: string;
   time: number; // in seconds
   ms_per_letter: number;
-  game_mode: number; // 15 or 30 words
+  wpm?: number; // correct letters / 5 per minute (missing on rows from before WPM was tracked)
+  raw_wpm?: number; // every typed letter / 5 per minute, errors included
+  consistency?: number; // 0-100, steadiness of per-second speed
+  game_mode: number; // word count or seconds, depending on game_mode_kind
+  game_mode_kind?: GameModeKind; // "words" or "time" (missing on rows from before timed modes)
+  modifiers?: string; // prompt modifiers bucket, e.g. "punctuation+numbers" ("" for none)
+  language?: Language; // word list language bucket ("en" on rows from before languages)
+  word_list?: WordList; // word list bucket ("common" on rows from before the web3 vocabulary)
+  device?: Device; // keyboard bucket ("desktop" on rows from before mobile support)
+  pacer_chain?: string; // key of the chain the pacer raced at (missing on rows from before the pacer selector)
+  score_version?: number | null; // formula that scored the row, see lib/scoring (missing on rows from before versioning)
   isTwitterUser?: boolean; // true if signed in with Twitter, false if name-based
+  prompt?: string; // prompt of this best run, replayed by ghost races
+  keystrokes?: KeystrokeEvent[]; // keystroke log of this best run, drives the ghost caret
   created_at?: string;
 };
 
+// A single keypress recorded during a run
+export type KeystrokeEvent = {
+  key: string; // typed character (event.key, composed IME/dead-key text or input event data), e.g. "a", "é", " ", "Backspace" or "DeleteWord"
+  timestamp: number; // ms since the run started
+  index: number; // letter index the key was applied to
+  correct: boolean; // whether the key matched the target letter (always false for Backspace)
+};
+
 export type StartRunRequest = {
   player_name: string;
-  game_mode: number;
+  game_mode: GameMode;
+  ghost?: boolean; // race the player's personal best on its prompt (unranked, the prompt is known)
+  room?: { code: string; player_token: string }; // run the current race of a room on its shared prompt
+  daily?: boolean; // today's daily challenge, one ranked attempt per UTC day
+  seed?: string; // replay the prompt generated from this seed (from a ?seed= link); such runs are unranked
+  modifiers?: PromptModifiers; // punctuation, capitals and numbers in the prompt
+  language?: Language; // word list of the prompt (default "en")
+  word_list?: WordList; // common words or the web3 vocabulary (default "common")
+  pacer_chain?: string; // key of the chain the pacer races at, from the chain registry (default "base")
 };
 
 export type StartRunResponse = {
   run_id: string;
   token: string;
   expires_at: number;
+  prompt: string; // Text the player must type; its hash is stored on the game_runs row
+  ghost_keystrokes?: KeystrokeEvent[]; // Personal-best keystroke log, when a ghost race was requested and a PB exists
+  daily_day?: string; // UTC day of the daily challenge this run counts for
+  seed?: string; // Seed the prompt was generated from, missing for ghost and daily runs
+  ranked: boolean; // False when the prompt was known in advance (a requested seed or a ghost race), so it could have been practised
+  modifiers: PromptModifiers; // Modifiers the prompt was generated with (none for rooms and the daily challenge)
+  language: Language; // Word list the prompt was generated from (english for rooms and the daily challenge)
+  word_list: WordList; // Common words for rooms and the daily challenge
+  device: Device; // Keyboard bucket, assigned from the request's user agent
+  pacer_chain: string; // Chain the pacer races at, stored on the run and copied to its result
+};
+
+// Sent on the first keystroke of a daily challenge run; the run becomes the day's one ranked attempt
+export type ClaimDailyRequest = {
+  run_id: string;
+  token: string;
 };
 
 export type GameResultSubmission = {
   run_id: string;
   token: string;
   player_name: string;
-  game_mode: number;
-  lps: number;
-  accuracy: number;
-  time: number;
-  ms_per_letter: number;
-  total_letters: number;
-  uncorrected_errors: number;
-  corrected_errors: number;
+  game_mode: GameMode;
+  total_letters: number; // letters in the prompt (word modes) or letters typed before the clock ran out (time modes)
+  prompt: string; // Must hash to the prompt issued by /api/start-run
+  keystrokes: KeystrokeEvent[]; // Server replays this to derive lps, accuracy and error counts
+  modifiers?: PromptModifiers; // Must match the modifiers the run was issued with
+  language?: Language; // Must match the language the run was issued with
+  word_list?: WordList; // Must match the word list the run was issued with
+  device?: Device; // Must match the device the run was issued for
   isTwitterUser?: boolean;
 };
 
@@ -49,8 +95,106 @@ export type LeaderboardEntry = {
   rank: string;
   time: number;
   ms_per_letter: number;
+  wpm?: number | null;
+  raw_wpm?: number | null;
+  consistency?: number | null;
   game_mode: number;
+  game_mode_kind?: GameModeKind;
+  modifiers?: string;
+  language?: Language;
+  word_list?: WordList;
+  device?: Device;
+  score_version?: number | null;
   isTwitterUser?: boolean; // true if signed in with Twitter, false if name-based
   created_at: string;
 };
 
+// A validated run, persisted on its game_runs row for the /run/[id] explorer page
+export type RunDetail = {
+  id: string;
+  player_name: string;
+  game_mode: GameMode;
+  modifiers: PromptModifiers;
+  pacer_chain: string;
+  prompt: string | null; // null for a daily challenge run until its day is over
+  keystrokes: KeystrokeEvent[] | null;
+  score: number;
+  rank: string;
+  lps: number;
+  accuracy: number;
+  time: number;
+  ms_per_letter: number;
+  wpm: number;
+  finished_at: string;
+};
+
+// Columns the leaderboard can be sorted by
+export type LeaderboardSortKey = "score" | "wpm" | "raw_wpm" | "consistency" | "lps" | "accuracy";
+
+// Daily challenge entry, a player's single ranked attempt for a UTC day
+export type DailyResultEntry = {
+  id: number;
+  day: string; // "YYYY-MM-DD"
+  player_name: string;
+  score: number;
+  lps: number;
+  accuracy: number;
+  rank: string;
+  time: number;
+  ms_per_letter: number;
+  score_version?: number | null; // formula that scored the attempt (missing on rows from before versioning)
+  isTwitterUser?: boolean;
+  created_at: string;
+};
+
+
+// Race rooms
+export type RoomPlayer = {
+  player_name: string;
+  progress: number; // 0-1 share of the prompt typed in the current race
+  is_host: boolean;
+};
+
+export type RoomFinisher = {
+  player_name: string;
+  time: number; // validated by /api/game-results, in seconds
+  place: number;
+};
+
+export type RoomSnapshot = {
+  code: string;
+  game_mode: GameMode;
+  players: RoomPlayer[];
+  race_number: number; // increments every time the host starts a race
+  starts_at: number | null; // epoch ms when the countdown of the current race ends
+  finishers: RoomFinisher[];
+  server_time: number; // epoch ms, lets clients correct for clock skew
+};
+
+export type RoomEvent =
+  | { type: "room"; room: RoomSnapshot }
+  | { type: "closed" };
+
+export type CreateRoomRequest = {
+  player_name: string;
+  game_mode: GameMode;
+};
+
+export type JoinRoomRequest = {
+  player_name: string;
+};
+
+export type RoomMembershipResponse = {
+  code: string;
+  player_token: string; // identifies this player in later room requests
+  room: RoomSnapshot;
+};
+
+export type RoomPlayerRequest = {
+  player_token: string;
+};
+
+export type RoomProgressRequest = {
+  player_token: string;
+  index: number; // letters typed so far
+};
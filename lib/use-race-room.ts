@@ -0,0 +1,189 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { GameMode } from "./constants";
+import type { RoomEvent, RoomMembershipResponse, RoomSnapshot } from "./types";
+
+// Progress is posted at most this often while typing; the final position is always sent
+const PROGRESS_THROTTLE_MS = 200;
+
+export type RoomMembership = {
+  code: string;
+  player_token: string;
+};
+
+async function postRoom<T>(path: string, body: object): Promise<T> {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || "Room request failed");
+  }
+  return result as T;
+}
+
+/**
+ * Membership of a race room and its live snapshot, streamed over server-sent events
+ */
+export function useRaceRoom(playerName: string) {
+  const [room, setRoom] = useState<RoomSnapshot | null>(null);
+  const [membership, setMembership] = useState<RoomMembership | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Server clock minus local clock, so every client counts down to the same instant
+  const clockOffsetRef = useRef(0);
+  const membershipRef = useRef<RoomMembership | null>(null);
+  const progressRef = useRef({ lastSentAt: 0, pendingIndex: null as number | null });
+  const progressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const applySnapshot = useCallback((snapshot: RoomSnapshot) => {
+    clockOffsetRef.current = snapshot.server_time - Date.now();
+    setRoom(snapshot);
+  }, []);
+
+  const enterRoom = useCallback(
+    (response: RoomMembershipResponse) => {
+      const nextMembership = { code: response.code, player_token: response.player_token };
+      membershipRef.current = nextMembership;
+      setMembership(nextMembership);
+      setError(null);
+      applySnapshot(response.room);
+    },
+    [applySnapshot]
+  );
+
+  const resetRoom = useCallback(() => {
+    membershipRef.current = null;
+    setMembership(null);
+    setRoom(null);
+    if (progressTimeoutRef.current) clearTimeout(progressTimeoutRef.current);
+  }, []);
+
+  const createRoom = useCallback(
+    async (gameMode: GameMode) => {
+      try {
+        enterRoom(
+          await postRoom<RoomMembershipResponse>("/api/rooms", {
+            player_name: playerName,
+            game_mode: gameMode,
+          })
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to create room");
+      }
+    },
+    [enterRoom, playerName]
+  );
+
+  const joinRoom = useCallback(
+    async (code: string) => {
+      try {
+        enterRoom(
+          await postRoom<RoomMembershipResponse>(
+            `/api/rooms/${encodeURIComponent(code.trim().toUpperCase())}/join`,
+            { player_name: playerName }
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to join room");
+      }
+    },
+    [enterRoom, playerName]
+  );
+
+  const startRace = useCallback(async () => {
+    const current = membershipRef.current;
+    if (!current) return;
+    try {
+      await postRoom(`/api/rooms/${current.code}/start`, { player_token: current.player_token });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start race");
+    }
+  }, []);
+
+  const leaveRoom = useCallback(async () => {
+    const current = membershipRef.current;
+    resetRoom();
+    if (!current) return;
+    try {
+      await postRoom(`/api/rooms/${current.code}/leave`, { player_token: current.player_token });
+    } catch {
+      // The room may already be gone
+    }
+  }, [resetRoom]);
+
+  const sendProgress = useCallback((index: number) => {
+    const current = membershipRef.current;
+    if (!current) return;
+    progressRef.current.lastSentAt = Date.now();
+    progressRef.current.pendingIndex = null;
+    postRoom(`/api/rooms/${current.code}/progress`, {
+      player_token: current.player_token,
+      index,
+    }).catch(() => {
+      // Progress is cosmetic, the next update catches up
+    });
+  }, []);
+
+  const reportProgress = useCallback(
+    (index: number, final = false) => {
+      const progress = progressRef.current;
+      const wait = PROGRESS_THROTTLE_MS - (Date.now() - progress.lastSentAt);
+      if (final || wait <= 0) {
+        if (progressTimeoutRef.current) clearTimeout(progressTimeoutRef.current);
+        progressTimeoutRef.current = null;
+        sendProgress(index);
+        return;
+      }
+
+      progress.pendingIndex = index;
+      if (!progressTimeoutRef.current) {
+        progressTimeoutRef.current = setTimeout(() => {
+          progressTimeoutRef.current = null;
+          if (progressRef.current.pendingIndex !== null) {
+            sendProgress(progressRef.current.pendingIndex);
+          }
+        }, wait);
+      }
+    },
+    [sendProgress]
+  );
+
+  // Server time now, according to the last snapshot
+  const getServerNow = useCallback(() => Date.now() + clockOffsetRef.current, []);
+
+  const roomCode = membership?.code;
+  useEffect(() => {
+    if (!roomCode) return;
+
+    const source = new EventSource(`/api/rooms/${roomCode}/events`);
+    source.onmessage = (message) => {
+      const event: RoomEvent = JSON.parse(message.data);
+      if (event.type === "room") {
+        applySnapshot(event.room);
+      } else {
+        setError("Room closed");
+        resetRoom();
+      }
+    };
+
+    return () => source.close();
+  }, [roomCode, applySnapshot, resetRoom]);
+
+  return {
+    room,
+    membership,
+    error,
+    createRoom,
+    joinRoom,
+    startRace,
+    leaveRoom,
+    reportProgress,
+    getServerNow,
+  };
+}
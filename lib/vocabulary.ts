@@ -0,0 +1,51 @@
+// lib/vocabulary.ts
+// "Words you typed today": web3 vocabulary words completed in runs, collected per day in localStorage
+import { getDefinition } from "./dictionaries/web3";
+import { getDailyDay } from "./prompt";
+
+const TYPED_WORDS_KEY = "web3_words_typed";
+
+/**
+ * Vocabulary words of the prompt that were typed in full before the caret stopped,
+ * without the punctuation and capitals modifiers add, in prompt order and without repeats
+ */
+export function getTypedVocabulary(prompt: string, typedLength: number): string[] {
+  const words: string[] = [];
+  let wordStart = 0;
+  prompt.split(" ").forEach((rawWord) => {
+    const wordEnd = wordStart + rawWord.length;
+    wordStart = wordEnd + 1;
+    if (wordEnd > typedLength) return;
+    const word = rawWord.toLowerCase().replace(/[^a-z0-9]/g, "");
+    if (getDefinition(word) && !words.includes(word)) words.push(word);
+  });
+  return words;
+}
+
+/**
+ * Get the vocabulary words typed today, most recent first
+ */
+export function getWordsTypedToday(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(TYPED_WORDS_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed?.day === getDailyDay() && Array.isArray(parsed.words) ? parsed.words : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add a run's vocabulary words to today's list, returning the updated list
+ */
+export function addWordsTypedToday(words: string[]): string[] {
+  const today = [...words, ...getWordsTypedToday().filter((word) => !words.includes(word))];
+  if (typeof window === "undefined") return today;
+  try {
+    localStorage.setItem(TYPED_WORDS_KEY, JSON.stringify({ day: getDailyDay(), words: today }));
+  } catch {
+    // Silently fail if localStorage is not available
+  }
+  return today;
+}
@@ -0,0 +1,83 @@
+-- Schema used by run sessions, keystroke replay, the run explorer, the daily challenge,
+-- race rooms, ghost runs and the chains table.
+-- New columns are nullable: rows from before them read as the default bucket
+-- (see getBucketFilter and getScoreVersionFilter).
+
+-- Run sessions issued by /api/start-run and validated by /api/game-results
+alter table game_runs
+  add column if not exists prompt_hash text,
+  add column if not exists room_code text,
+  add column if not exists room_race_number integer,
+  add column if not exists daily_day text,
+  add column if not exists ranked boolean not null default true,
+  add column if not exists claimed_at timestamptz,
+  add column if not exists game_mode_kind text,
+  add column if not exists modifiers text,
+  add column if not exists language text,
+  add column if not exists word_list text,
+  add column if not exists device text,
+  add column if not exists pacer_chain text,
+  add column if not exists prompt text,
+  add column if not exists keystrokes jsonb,
+  add column if not exists score double precision,
+  add column if not exists rank text,
+  add column if not exists lps double precision,
+  add column if not exists accuracy double precision,
+  add column if not exists time double precision,
+  add column if not exists ms_per_letter double precision,
+  add column if not exists wpm double precision,
+  add column if not exists finished_at timestamptz;
+
+-- One claimed daily attempt per player and day; /api/claim-daily maps a violation to 409
+create unique index if not exists game_runs_daily_claim_key
+  on game_runs (player_name, daily_day)
+  where claimed_at is not null;
+
+-- Personal bests, bucketed by mode, modifiers, language, word list and device
+alter table game_results
+  add column if not exists wpm double precision,
+  add column if not exists raw_wpm double precision,
+  add column if not exists consistency double precision,
+  add column if not exists game_mode_kind text,
+  add column if not exists modifiers text,
+  add column if not exists language text,
+  add column if not exists word_list text,
+  add column if not exists device text,
+  add column if not exists pacer_chain text,
+  add column if not exists score_version integer,
+  add column if not exists prompt text,
+  add column if not exists keystrokes jsonb;
+
+-- One result per player and day; /api/game-results maps a violation to 409
+create table if not exists daily_results (
+  id uuid primary key default gen_random_uuid(),
+  day text not null,
+  player_name text not null,
+  score double precision not null,
+  lps double precision not null,
+  accuracy double precision not null,
+  rank text not null,
+  time double precision not null,
+  ms_per_letter double precision not null,
+  score_version integer,
+  "isTwitterUser" boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (player_name, day)
+);
+
+-- Chains behind the pacer and the rank bar; lib/chains.ts falls back to its built-in list when empty
+create table if not exists chains (
+  key text primary key,
+  name text not null,
+  block_time_ms integer not null check (block_time_ms > 0),
+  icon text,
+  color text not null,
+  display_time text
+);
+
+-- The leaderboards and the chains list are read with the anon key
+alter table daily_results enable row level security;
+alter table chains enable row level security;
+
+create policy "daily_results are public" on daily_results for select using (true);
+create policy "chains are public" on chains for select using (true);